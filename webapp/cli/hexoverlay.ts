@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+// hexoverlay: draw the web app's hex grid over map images from the command line.
+import {mkdir} from 'node:fs/promises';
+import {parseArgs} from 'node:util';
+import {loadImage} from '@napi-rs/canvas';
+import type {HexOrientation} from '../src/hexGrid.ts';
+import {toHexColor, type LinePattern} from '../src/gridStyle.ts';
+import type {LabelScheme} from '../src/labels.ts';
+import {isHexSizeUsable, MIN_HEX_RADIUS} from '../src/hexOverlay.ts';
+import type {Project} from '../src/project.ts';
+import type {CoverageRule} from '../src/regions.ts';
+import {countDrawnHexes, defaultProject, listMaps, outputPath, overlayGridsFor, readMask, readProject, renderMapFile, UsageError} from './renderMap.ts';
+
+const HELP = `Usage: hexoverlay <map or folder>... [options]
+
+Overlay a hexagonal grid on map images for tabletop roleplaying hexcrawls, drawn
+exactly as the web app's "Download Image" draws it. Each map.ext is written as
+map_hexed.png; folders are processed map by map.
+
+Options:
+  --project <file>        start from a project saved in the web app, with its
+                          terrain and stamps
+  --ppm <n>               pixels per mile (default: 22.56)
+  --hex-miles <n>         hex size in miles (default: 6)
+  --sub-hex-miles <n>     nested sub-hexes of this size inside each hex
+  --orientation <o>       flat or pointy (default: flat)
+  --offset <x,y>          grid offset in pixels
+  --rotation <degrees>    grid rotation, clockwise
+  --color <color>         line color: a name, #rgb or #rrggbb (default: black)
+  --opacity <0-1>         line opacity
+  --line-width <percent>  line width as a percentage of the hex radius
+  --pattern <p>           solid, dashed or dotted
+  --contrast              draw a contrasting outline under the lines
+  --center-dots           mark hex centers
+  --mask <file>           regions hiding the grid: a saved project, a list of
+                          regions, or a list of polygons ([[{"x":0,"y":0},...]])
+  --coverage <rule>       when partly hidden hexes are drawn: all-corners,
+                          any-corner, center or area
+  --clip                  cut the grid off at the edges of hidden regions
+  --labels                draw coordinate labels
+  --label-scheme <s>      offset, classic, axial, cube or letter-number
+  --out <dir>             write the images here instead of next to the maps
+  --dry-run               print how many hexes would be drawn and exit
+  -h, --help              show this help
+
+Examples:
+  hexoverlay map.png
+  hexoverlay map.jpg --ppm 30 --hex-miles 2 --mask mask.json --labels
+  hexoverlay maps/ --hex-miles 30 --sub-hex-miles 6 --out hexed/
+  hexoverlay map.png --dry-run
+`;
+
+const ORIENTATIONS: HexOrientation[] = ['flat', 'pointy'];
+const PATTERNS: LinePattern[] = ['solid', 'dashed', 'dotted'];
+const COVERAGE_RULES: CoverageRule[] = ['all-corners', 'any-corner', 'center', 'area'];
+const LABEL_SCHEMES: LabelScheme[] = ['offset', 'classic', 'axial', 'cube', 'letter-number'];
+
+function number(name: string, value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new UsageError(`--${name} needs a number, got "${value}"`);
+    return parsed;
+}
+
+function positive(name: string, value: string | undefined): number | undefined {
+    const parsed = number(name, value);
+    if (parsed !== undefined && parsed <= 0) throw new UsageError(`--${name} must be more than 0`);
+    return parsed;
+}
+
+function oneOf<T extends string>(name: string, value: string | undefined, choices: T[]): T | undefined {
+    if (value === undefined) return undefined;
+    if (!choices.includes(value as T)) throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+    return value as T;
+}
+
+function parseCommandLine(args: string[]) {
+    try {
+        return parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                'project': { type: 'string' },
+                'ppm': { type: 'string' },
+                'hex-miles': { type: 'string' },
+                'sub-hex-miles': { type: 'string' },
+                'orientation': { type: 'string' },
+                'offset': { type: 'string' },
+                'rotation': { type: 'string' },
+                'color': { type: 'string' },
+                'opacity': { type: 'string' },
+                'line-width': { type: 'string' },
+                'pattern': { type: 'string' },
+                'contrast': { type: 'boolean' },
+                'center-dots': { type: 'boolean' },
+                'mask': { type: 'string' },
+                'coverage': { type: 'string' },
+                'clip': { type: 'boolean' },
+                'labels': { type: 'boolean' },
+                'label-scheme': { type: 'string' },
+                'out': { type: 'string' },
+                'dry-run': { type: 'boolean' },
+                'help': { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (err) {
+        throw new UsageError(err instanceof Error ? err.message : String(err));
+    }
+}
+
+type Options = ReturnType<typeof parseCommandLine>['values'];
+
+// the project's settings with the command-line options on top
+async function buildProject(options: Options): Promise<Project> {
+    const project = options.project ? await readProject(options.project) : defaultProject();
+    const settings = { ...project.settings };
+
+    settings.pixelsPerMile = positive('ppm', options.ppm) ?? settings.pixelsPerMile;
+    settings.hexMiles = positive('hex-miles', options['hex-miles']) ?? settings.hexMiles;
+    settings.subHexMiles = positive('sub-hex-miles', options['sub-hex-miles']) ?? settings.subHexMiles;
+    if (settings.subHexMiles >= settings.hexMiles) throw new UsageError('--sub-hex-miles must be smaller than --hex-miles');
+    if (!isHexSizeUsable(settings.pixelsPerMile, settings.hexMiles)) {
+        throw new UsageError(`${settings.hexMiles} mile hexes at ${settings.pixelsPerMile} px/mi have a radius under ${MIN_HEX_RADIUS} px; raise --ppm or --hex-miles`);
+    }
+    if (settings.subHexMiles > 0 && !isHexSizeUsable(settings.pixelsPerMile, settings.subHexMiles)) {
+        throw new UsageError(`${settings.subHexMiles} mile sub-hexes at ${settings.pixelsPerMile} px/mi have a radius under ${MIN_HEX_RADIUS} px; raise --ppm or --sub-hex-miles`);
+    }
+
+    const layout = { ...settings.gridLayout };
+    layout.orientation = oneOf('orientation', options.orientation, ORIENTATIONS) ?? layout.orientation;
+    layout.rotation = number('rotation', options.rotation) ?? layout.rotation;
+    if (options.offset !== undefined) {
+        const [x, y] = options.offset.split(',').map(part => number('offset', part.trim()));
+        if (x === undefined || y === undefined) throw new UsageError('--offset needs two numbers, e.g. --offset 12,-4');
+        layout.offset = { x, y };
+    }
+    settings.gridLayout = layout;
+
+    const lines = { ...settings.gridStyle };
+    if (options.color !== undefined) {
+        const color = toHexColor(options.color);
+        if (!color) throw new UsageError(`--color "${options.color}" is not a color name, #rgb or #rrggbb`);
+        lines.color = color;
+    }
+    const opacity = number('opacity', options.opacity);
+    if (opacity !== undefined && (opacity <= 0 || opacity > 1)) throw new UsageError('--opacity must be more than 0 and at most 1');
+    lines.opacity = opacity ?? lines.opacity;
+    lines.width = positive('line-width', options['line-width']) ?? lines.width;
+    lines.pattern = oneOf('pattern', options.pattern, PATTERNS) ?? lines.pattern;
+    lines.underStroke = options.contrast ?? lines.underStroke;
+    lines.centerDots = options['center-dots'] ?? lines.centerDots;
+    settings.gridStyle = lines;
+
+    settings.coverage = {
+        ...settings.coverage,
+        rule: oneOf('coverage', options.coverage, COVERAGE_RULES) ?? settings.coverage.rule,
+        shouldClip: options.clip ?? settings.coverage.shouldClip,
+    };
+    settings.shouldDrawCoordinates = options.labels ?? settings.shouldDrawCoordinates;
+    settings.labelStyle = {
+        ...settings.labelStyle,
+        scheme: oneOf('label-scheme', options['label-scheme'], LABEL_SCHEMES) ?? settings.labelStyle.scheme,
+    };
+
+    const regions = options.mask ? await readMask(options.mask) : project.regions;
+    return { ...project, settings, regions };
+}
+
+async function main(args: string[]): Promise<number> {
+    const { values: options, positionals } = parseCommandLine(args);
+    if (options.help) {
+        console.log(HELP);
+        return 0;
+    }
+    if (positionals.length === 0) throw new UsageError('no map images given');
+
+    const project = await buildProject(options);
+    const { settings } = project;
+    const maps = await listMaps(positionals);
+    if (maps.length === 0) throw new UsageError('no map images found');
+    const outDir = options.out ?? null;
+    if (outDir && !options['dry-run']) await mkdir(outDir, { recursive: true });
+
+    let failures = 0;
+    for (const map of maps) {
+        try {
+            if (options['dry-run']) {
+                const image = await loadImage(map);
+                const { hexes, subHexes } = countDrawnHexes(overlayGridsFor(image.width, image.height, project));
+                const nested = subHexes > 0 ? ` and ${subHexes} ${settings.subHexMiles.toFixed(1)} mi sub-hexes` : '';
+                console.log(`Dry run: ${map}: image size ${image.width}×${image.height}, ` +
+                    `${settings.pixelsPerMile.toFixed(2)} px/mi, ${settings.hexMiles.toFixed(1)} mi hex → ` +
+                    `${hexes} hexagons${nested} would be drawn.`);
+                continue;
+            }
+            const output = outputPath(map, outDir);
+            console.log(`→ ${map} → ${output}`);
+            await renderMapFile(map, output, project);
+        } catch (err) {
+            failures++;
+            console.error(`❌ ${map}: ${err instanceof Error ? err.message : err}`);
+        }
+    }
+    if (!options['dry-run']) console.log(failures > 0 ? `Done with ${failures} of ${maps.length} maps failed.` : '✅ Done!');
+    return failures > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+    .then(code => { process.exitCode = code; })
+    .catch(err => {
+        if (err instanceof UsageError) {
+            console.error(`hexoverlay: ${err.message}\nRun hexoverlay --help for the options.`);
+            process.exitCode = 2;
+        } else {
+            console.error(`❌ ${err instanceof Error ? err.message : err}`);
+            process.exitCode = 1;
+        }
+    });
@@ -0,0 +1,46 @@
+// The hexoverlay package for Node: the web app's grid engine plus map rendering with
+// @napi-rs/canvas, for scripts that want more control than the command line gives.
+export {
+    countDrawnHexes,
+    defaultProject,
+    listMaps,
+    outputPath,
+    overlayGridsFor,
+    readMask,
+    readProject,
+    renderMap,
+    renderMapFile,
+    UsageError,
+} from './renderMap.ts';
+export {
+    computeOverlayGrids,
+    isHexSizeUsable,
+    MAP_PADDING,
+    MIN_HEX_RADIUS,
+    renderOverlay,
+    type GridParams,
+    type OverlayContent,
+    type OverlayGrids,
+} from '../src/hexOverlay.ts';
+export {
+    computeHexGrid,
+    DEFAULT_GRID_LAYOUT,
+    hexAt,
+    hexCorners,
+    hexDistance,
+    hexKey,
+    hexNeighbors,
+    type GridLayout,
+    type HexCell,
+    type HexGrid,
+    type HexOrientation,
+    type Point,
+} from '../src/hexGrid.ts';
+export {
+    DEFAULT_SETTINGS,
+    parseProject,
+    PROJECT_VERSION,
+    ProjectFormatError,
+    type Project,
+    type ProjectSettings,
+} from '../src/project.ts';
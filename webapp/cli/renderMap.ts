@@ -0,0 +1,154 @@
+// Node side of the overlay engine: map files in, overlaid PNGs out, drawn by the same code as the
+// web app's "Download Image". A project (a saved web app project, or the defaults) supplies
+// every setting, so a map rendered here matches one exported from the page.
+import {readFile, readdir, stat, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {createCanvas, loadImage, type Image} from '@napi-rs/canvas';
+import type {Canvas2D, Point} from '../src/hexGrid.ts';
+import {computeOverlayGrids, MAP_PADDING, renderOverlay, type OverlayGrids} from '../src/hexOverlay.ts';
+import {parseProject, PROJECT_VERSION, type Project} from '../src/project.ts';
+import {newRegion, setMaskCanvasFactory, withRegionTerrain, type Region, type RegionRule} from '../src/regions.ts';
+import {loadStampImages, type StampImage} from '../src/stamps.ts';
+
+// clipping to regions draws the hidden areas on a mask canvas, which Node doesn't have built in
+setMaskCanvasFactory((width, height) => createCanvas(width, height) as unknown as OffscreenCanvas);
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp'];
+const OUTPUT_SUFFIX = '_hexed';
+
+// a project with every setting at the web app's defaults
+export function defaultProject(): Project {
+    return parseProject({ version: PROJECT_VERSION });
+}
+
+export async function readProject(file: string): Promise<Project> {
+    return parseProject(JSON.parse(await readFile(file, 'utf8')));
+}
+
+// a mistake in the command line or the files it names, which the CLI reports with its usage hint
+export class UsageError extends Error {}
+
+const REGION_RULES: RegionRule[] = ['inherit', 'hide', 'show'];
+
+function isPolygon(value: unknown): value is Point[] {
+    return Array.isArray(value) && value.length >= 3 && value.every(pt =>
+        !!pt && typeof pt === 'object' && Number.isFinite((pt as Point).x) && Number.isFinite((pt as Point).y));
+}
+
+// A region from a mask file item: a polygon, or a region object whose missing or malformed
+// fields fall back to those of a newly drawn region
+function maskRegion(item: unknown, regions: Region[]): Region | null {
+    if (isPolygon(item)) return newRegion(item, regions);
+    if (!item || typeof item !== 'object' || Array.isArray(item) || !isPolygon((item as Region).polygon)) return null;
+    const raw = item as Partial<Record<keyof Region, unknown>>;
+    const region = newRegion((item as Region).polygon, regions);
+    const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+    const rule = (value: unknown, fallback: RegionRule) => REGION_RULES.includes(value as RegionRule) ? value as RegionRule : fallback;
+    return {
+        id: text(raw.id, region.id),
+        name: text(raw.name, region.name),
+        polygon: region.polygon,
+        visible: typeof raw.visible === 'boolean' ? raw.visible : region.visible,
+        grid: rule(raw.grid, region.grid),
+        labels: rule(raw.labels, region.labels),
+        tint: text(raw.tint, region.tint),
+        terrain: text(raw.terrain, region.terrain),
+    };
+}
+
+// Regions from a mask file: a saved project (its regions), a list of regions, or a list of
+// polygons, each of which hides the grid like a polygon drawn in the app
+export async function readMask(file: string): Promise<Region[]> {
+    const json: unknown = JSON.parse(await readFile(file, 'utf8'));
+    if (!Array.isArray(json)) return parseProject(json).regions;
+    return json.reduce<Region[]>((regions, item, i) => {
+        const region = maskRegion(item, regions);
+        if (!region) {
+            throw new UsageError(`${file}: item ${i} is neither a polygon of at least 3 {"x", "y"} points nor a region with one`);
+        }
+        return [...regions, region];
+    }, []);
+}
+
+// Image files among `inputs`; folders contribute the maps directly inside them, leaving out
+// earlier outputs
+export async function listMaps(inputs: string[]): Promise<string[]> {
+    const files: string[] = [];
+    for (const input of inputs) {
+        if (!(await stat(input)).isDirectory()) {
+            files.push(input);
+            continue;
+        }
+        const names = (await readdir(input)).sort();
+        files.push(...names
+            .filter(name => IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+            .filter(name => !path.basename(name, path.extname(name)).endsWith(OUTPUT_SUFFIX))
+            .map(name => path.join(input, name)));
+    }
+    return files;
+}
+
+// map.jpg -> map_hexed.png, next to the map or in `outDir`
+export function outputPath(file: string, outDir: string | null): string {
+    const name = path.basename(file, path.extname(file)) + OUTPUT_SUFFIX + '.png';
+    return path.join(outDir ?? path.dirname(file), name);
+}
+
+// the grids over an image of `width` × `height`, padded the way the app pads it
+export function overlayGridsFor(width: number, height: number, project: Project): OverlayGrids {
+    const { settings } = project;
+    return computeOverlayGrids({
+        width: width + MAP_PADDING * 2,
+        height: height + MAP_PADDING * 2,
+        pixelsPerMile: settings.pixelsPerMile,
+        hexMiles: settings.hexMiles,
+        subHexMiles: settings.subHexMiles,
+        layout: settings.gridLayout,
+        regions: project.regions,
+        coverage: settings.coverage,
+    });
+}
+
+export function countDrawnHexes(grids: OverlayGrids) {
+    return {
+        hexes: grids.grid.cells.filter(cell => cell.drawn).length,
+        subHexes: grids.subGrid ? grids.subGrid.grid.cells.filter(cell => cell.drawn).length : 0,
+    };
+}
+
+function blankContext(width: number, height: number): Canvas2D {
+    // @napi-rs/canvas implements the standard 2D context; only its type declarations differ
+    return createCanvas(width, height).getContext('2d') as unknown as Canvas2D;
+}
+
+// The PNG the web app's "Download Image" makes from this image and project
+export async function renderMap(image: Image, project: Project): Promise<Buffer> {
+    const { settings } = project;
+    const width = image.width + MAP_PADDING * 2, height = image.height + MAP_PADDING * 2;
+    const map = createCanvas(width, height);
+    map.getContext('2d').drawImage(image, MAP_PADDING, MAP_PADDING);
+    const grids = overlayGridsFor(image.width, image.height, project);
+    const stampImages = await loadStampImages(project.stampIcons, async src => await loadImage(src) as unknown as StampImage);
+
+    const output = createCanvas(width, height);
+    renderOverlay(output.getContext('2d') as unknown as Canvas2D, map as unknown as CanvasImageSource, grids, {
+        hexData: withRegionTerrain(grids.grid, project.hexData, project.regions),
+        terrainPalette: project.terrainPalette,
+        gridStyle: {
+            lines: settings.gridStyle,
+            subLines: settings.subGridStyle,
+            labelStyle: settings.shouldDrawCoordinates ? settings.labelStyle : null,
+            labelInset: MAP_PADDING,
+            regions: project.regions,
+            shouldClip: settings.coverage.shouldClip,
+        },
+        stamps: project.stamps,
+        stampImages,
+        shouldDrawLegend: settings.shouldDrawLegend,
+    }, () => blankContext(width, height));
+    return output.encode('png');
+}
+
+export async function renderMapFile(file: string, output: string, project: Project) {
+    await writeFile(output, await renderMap(await loadImage(file), project));
+}
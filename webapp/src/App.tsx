@@ -1,16 +1,67 @@
-import React, {RefObject, useEffect, useRef, useState} from 'react';
-import {FaCheck, FaClipboard, FaDrawPolygon, FaMousePointer, FaTrash} from 'react-icons/fa';
+import React, {type RefObject, useEffect, useRef, useState} from 'react';
+import {FaArrowLeft, FaArrowsAlt, FaCheck, FaClipboard, FaDiceD20, FaDrawPolygon, FaExpand, FaEye, FaFile, FaFlag, FaFolderOpen, FaHandPaper, FaLayerGroup, FaMagic, FaMapMarkerAlt, FaPaintBrush, FaRedo, FaRoute, FaRulerHorizontal, FaSave, FaSearch, FaSearchMinus, FaSearchPlus, FaTrash, FaUndo, FaVectorSquare} from 'react-icons/fa';
+import {hexAt, hexDistance, hexKey, pointInPolygon, type GridLayout, type HexCell, type HexGrid, type HexOrientation, type Point} from './hexGrid.ts';
+import {EMPTY_HEX_DATA, updateHexData, type HexDataMap} from './hexData.ts';
+import {DEFAULT_TERRAIN_PALETTE, terrainCost, type TerrainType} from './terrain.ts';
+import HexInspector from './HexInspector.tsx';
+import TerrainPalette from './TerrainPalette.tsx';
+import {DEFAULT_SETTINGS, parseProject, PROJECT_VERSION, projectImageFromFile, projectImageToFile, readFileAsDataUrl, type Project, type ProjectImage} from './project.ts';
+import {clearAutosave, loadAutosave, loadAutosaveImage, saveAutosave, saveAutosaveImage} from './projectStore.ts';
+import {downloadBlob} from './download.ts';
+import {drawCalibrationPreview, pixelsPerMileFromRuler, type DistanceUnit} from './calibration.ts';
+import CalibrationPanel from './CalibrationPanel.tsx';
+import {findLabelOrigin, formatHexLabel, type LabelStyle} from './labels.ts';
+import LabelSettings from './LabelSettings.tsx';
+import type {GridLineStyle} from './gridStyle.ts';
+import GridStyleSettings from './GridStyleSettings.tsx';
+import {buildSvg} from './svgExport.ts';
+import {blankMaskedAreas, buildTiledPdf, computePrintLayout, DEFAULT_PRINT_OPTIONS, type PrintOptions} from './printExport.ts';
+import PrintSettings from './PrintSettings.tsx';
+import {collectHexes, foundrySceneConfig, hexesToCsv} from './dataExport.ts';
+import {drawFogPreview, drawPlayerView, toggleRevealed} from './fogOfWar.ts';
+import FogPanel from './FogPanel.tsx';
+import {campEntry, DEFAULT_TRAVEL_SETTINGS, drawPartyToken, EMPTY_PARTY, partyFromLog, planMove, startEntry, type PartyState, type TravelSettings} from './travel.ts';
+import TravelPanel from './TravelPanel.tsx';
+import {drawHexPath, findHexPath} from './pathfinding.ts';
+import MeasurePanel from './MeasurePanel.tsx';
+import {appendNote, DEFAULT_ROLL_SETTINGS, populateHexes, resultLine, rollOnTable, tablesForHex, type RollSettings, type RollTable} from './rollTables.ts';
+import RollTablesPanel from './RollTablesPanel.tsx';
+import {newRegion, regionAt, regionLabelFilter, withRegionTerrain, type CoverageRule, type CoverageSettings, type Region} from './regions.ts';
+import RegionPanel from './RegionPanel.tsx';
+import {DEFAULT_WAND_OPTIONS, wandSelect, type WandOptions} from './magicWand.ts';
+import MagicWandPanel from './MagicWandPanel.tsx';
+import {drawGridLayer, type GridLayerStyle} from './gridLayer.ts';
+import {drawMapLegend, drawTerrainLayer, isHexSizeUsable, MAP_PADDING, renderOverlay} from './hexOverlay.ts';
+import {createGridWorkerClient, type GridWorkerClient} from './gridWorkerClient.ts';
+import {beginLayer, cellsNear, centerOn, DEFAULT_VIEWPORT, drawTiles, fitRect, fitViewport, panBy, screenToWorld, visibleRect, worldToScreen, zoomAt, type Size, type Viewport} from './viewport.ts';
+import Minimap from './Minimap.tsx';
+import {cellBounds, dimOutsideHex, drawSubHexNumbers, SUB_HEX_MILES, subHexesOf, type SubGrid} from './nestedGrid.ts';
+import {DEFAULT_STAMP_OPTIONS, drawStamps, loadStampImages, newStamp, playerStamps, stampAt, stampBounds, type Stamp, type StampIcon, type StampImages, type StampOptions} from './stamps.ts';
+import StampPanel from './StampPanel.tsx';
+import {EMPTY_HISTORY, findEdge, findVertex, insertVertex, moveVertex, recordSnapshot, redoSnapshot, removeVertex, translatePolygon, undoSnapshot, type EditHistory, type PolygonSnapshot} from './polygonEditing.ts';
 
 // Tool modes
 enum Tool {
     Select = 'select',
     Draw = 'draw',
     Delete = 'delete',
+    Edit = 'edit',
+    Wand = 'wand',
+    Inspect = 'inspect',
+    Paint = 'paint',
+    Calibrate = 'calibrate',
+    MoveGrid = 'move-grid',
+    Reveal = 'reveal',
+    Party = 'party',
+    Measure = 'measure',
+    Roll = 'roll',
+    Stamp = 'stamp',
+    Pan = 'pan',
 }
 
-const PADDING = 100; // pixels of canvas padding around image
-
-interface Point { x: number; y: number }
+const AUTOSAVE_DELAY = 1000; // ms of inactivity before writing the autosave
+const HIT_RADIUS = 8; // screen pixels within which a click grabs a vertex or edge
+const ZOOM_STEP = 1.25; // zoom factor of the toolbar buttons
 
 const Poly: "Polygon" = "Polygon";
 const Hex: "Hexagon" = "Hexagon";
@@ -34,214 +85,213 @@ async function readImageFromClipboard(): Promise<File | null> {
     return null;
 }
 
-// point-in-polygon test (ray-casting)
-function pointInPolygon(point: Point, vs: Point[]) {
-    const { x, y } = point;
-    let inside = false;
-    for (let i = 0, j = vs.length - 1; i < vs.length; j = i++) {
-        const xi = vs[i].x, yi = vs[i].y;
-        const xj = vs[j].x, yj = vs[j].y;
-
-        const intersect = ((yi > y) !== (yj > y)) &&
-            (x < ((xj - xi) * (y - yi)) / (yj - yi) + xi);
-        if (intersect) inside = !inside;
-    }
-    return inside;
-}
-
-function overlayHexGrid(
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    height: number,
-    ppm: number,
-    miles: number,
-    color: string,
-    polygonsToSkip: Point[][] = [],
-    polygonsToInclude: Point[][] = []
-) {
-    const hexDiameter = ppm * miles;
-    const hexRadius = hexDiameter / 2;
-    const hexWidth = 2 * hexRadius;
-    const hexHeight = Math.sqrt(3) * hexRadius;
-    const hSpacing = 0.75 * hexWidth;
-    const vSpacing = hexHeight;
-
-    let row = -1;
-    let y = -vSpacing / 2;
-    ctx.strokeStyle = color;
-    ctx.lineWidth = 1;
-
-    // outer loop = each row
-    while (y < height + vSpacing) {
-        row += 1;
-
-        // row-level vertical shift
-        const yOffset = (row % 2 === 0) ? 0 : vSpacing / 2;
-
-        let halfHeightOffsetCounter = 0;
-        let x = 0;
-
-        // inner loop = each column
-        while (x < width + hSpacing * 2) {
-            halfHeightOffsetCounter += 1;
-            const points: Point[] = []
-
-            // draw one hexagon
-            for (let i = 0; i < 6; i++) {
-                // flat‑top: start at angle=0° (pointing right) and go CCW 60° steps
-                const theta = (i * 60) * (Math.PI / 180);
-
-                let px = x + hexRadius * Math.cos(theta);
-                let py = y + yOffset + hexRadius * Math.sin(theta);
-
-                // per‑hex vertical shift
-                if (halfHeightOffsetCounter % 2 === 0) {
-                    py += hexHeight / 2;
-                }
-
-                points.push({ x: px, y: py });
-            }
-
-            const shouldDrawHex = points.every(pt => {
-                if (polygonsToSkip.some(polygon => pointInPolygon(pt, polygon))) {
-                    if (polygonsToInclude.some(polygon => pointInPolygon(pt, polygon))) {
-                        return true;
-                    }
-                    return false;
-                }
-                return true;
-            });
-
-            if (shouldDrawHex) {
-                ctx.beginPath();
-                points.forEach((pt: Point, i: number) => {
-                    if (i === 0) ctx.moveTo(pt.x, pt.y);
-                    else ctx.lineTo(pt.x, pt.y);
-                })
-                ctx.closePath();
-                ctx.stroke();
-            }
-
-            x += hSpacing;
-        }
-
-        y += vSpacing / 2;
-    }
+// decode an uploaded stamp icon in the page
+function loadImageElement(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Not a readable image'));
+        img.src = src;
+    });
 }
 
-
-// compute grid coords for each hex (flat‑top, identical to overlayHexGrid loops)
-interface Hex { row: number; col: number; x: number; y: number }
-
-type IHexesRowsCols = { hexes: Hex[]; rowCount: number; colCount: number };
-function computeHexGrid(
-    width: number,
-    height: number,
-    ppm: number,
-    miles: number
-): { hexes: Hex[]; rowCount: number; colCount: number } {
-    const hexRadius = ppm * miles;
-    const hexWidth = 2 * hexRadius;
-    const hexHeight = Math.sqrt(3) * hexRadius;
-    const hSpacing = 0.75 * hexWidth;
-    const vSpacing = hexHeight;
-    const hexes: Hex[] = [];
-    let row = -1;
-    // start half a row up to match overlay offset
-    for (let y = -vSpacing/4; y < height + vSpacing; y += vSpacing/4) {
-        row++;
-        const xOffset = row % 2 === 1 ? hSpacing / 2 : 0;
-        let col = 0;
-        for (let x = xOffset; x < width + hSpacing; x += hSpacing) {
-            hexes.push({ row, col, x, y });
-            col++;
-        }
-    }
-    // maximum columns across any row
-    const colCount = Math.max(
-        ...new Set(hexes.map(h => h.col)).values()
-    );
-    // rowCount is last row index + 1
-    const rowCount = row + 1;
-    return { hexes, rowCount, colCount };
+// dashed boxes around GM-only stamps and a solid one around the selected stamp, `lineWidth` map pixels wide
+function outlineStamps(ctx: CanvasRenderingContext2D, grid: HexGrid, stamps: Stamp[], selectedId: string | null, lineWidth: number) {
+    ctx.save();
+    ctx.lineWidth = lineWidth;
+    stamps.forEach(stamp => {
+        const bounds = stampBounds(grid, stamp);
+        if (!bounds || (stamp.visibility !== 'gm' && stamp.id !== selectedId)) return;
+        ctx.strokeStyle = stamp.id === selectedId ? 'rgba(255, 200, 0, 0.9)' : 'rgba(120, 0, 160, 0.8)';
+        ctx.setLineDash(stamp.id === selectedId ? [] : [lineWidth * 3, lineWidth * 2]);
+        ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    });
+    ctx.restore();
 }
 
-// draw axial-style coordinates centered on middle hex
-function annotateHexCoords(
-    ctx: CanvasRenderingContext2D,
-    grid: ReturnType<typeof computeHexGrid>,
-    ppm: number,
-    miles: number,
-    polygonsToSkip: Point[][] = [],
-    polygonsToInclude: Point[][] = []
-) {
-    const { hexes, rowCount, colCount } = grid;
-    // recompute height to offset labels
-    const hexRadius = ppm * miles;
-    const hexHeight = Math.sqrt(3) * hexRadius;
-    const yOffset = hexHeight / 8;
-    const centerRow = Math.floor(rowCount / 2);
-    const centerCol = Math.floor(colCount / 2);
-    ctx.fillStyle = 'black';
-    ctx.font = '24px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    hexes.forEach(({ row, col, x, y }) => {
-        const points: Point[] = []
-
-        // draw one hexagon
-        for (let i = 0; i < 6; i++) {
-            // flat‑top: start at angle=0° (pointing right) and go CCW 60° steps
-            const theta = (i * 60) * (Math.PI / 180);
-
-            let px = x + hexRadius * Math.cos(theta);
-            let py = y + yOffset + hexRadius * Math.sin(theta);
-
-            // per‑hex vertical shift
-            if (col % 2 === 0) {
-                py += hexHeight / 2;
-            }
-
-            points.push({ x: px, y: py });
-        }
+// Draw filled polygon when 3+ vertices
+function drawPolygon(ctx: CanvasRenderingContext2D, polygon: Point[], zoom: number, color: string = 'rgba(255,0,0,0.3)') {
+    if (polygon.length < 1) return;
 
+    // draw marker for each vertex, the same size on screen at any zoom
+    ctx.fillStyle = 'red';
+    polygon.forEach(({ x, y }) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 4 / zoom, 0, Math.PI * 2);
+        ctx.fill();
+    });
 
-        const shouldDrawHex = points.every(pt => {
-            if (polygonsToSkip.some(polygon => pointInPolygon(pt, polygon))) {
-                if (polygonsToInclude.some(polygon => pointInPolygon(pt, polygon))) {
-                    return true;
-                }
-                return false;
-            }
-            return true;
+    if (polygon.length >= 3) {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        polygon.forEach((pt, i) => {
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
         });
-        if (!shouldDrawHex) return;
+        ctx.closePath();
+        ctx.fill();
+    }
+}
 
-        const q = col - centerCol;
-        const r = centerRow - row;
-        ctx.fillText(`${q},${r}`, x, y + yOffset);
+// outline the hex picked with the Inspect tool, 3 screen pixels wide at any zoom
+function highlightHex(ctx: CanvasRenderingContext2D, cell: HexCell, zoom: number) {
+    ctx.strokeStyle = 'rgba(255, 200, 0, 0.9)';
+    ctx.fillStyle = 'rgba(255, 200, 0, 0.25)';
+    ctx.lineWidth = 3 / zoom;
+    ctx.beginPath();
+    cell.corners.forEach((pt: Point, i: number) => {
+        if (i === 0) ctx.moveTo(pt.x, pt.y);
+        else ctx.lineTo(pt.x, pt.y);
     });
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
 }
 
 function App() {
     const [imageFile, setImageFile] = useState<File | null>(null);
-    const [tool, setTool] = useState<Tool>(Tool.Draw);
+    const [tool, setTool] = useState<Tool | null>(Tool.Draw);
     const mapCanvasRef = useRef<HTMLCanvasElement>(null);
+    const terrainCanvasRef = useRef<HTMLCanvasElement>(null);
+    const gridCanvasRef = useRef<HTMLCanvasElement>(null);
+    const stampCanvasRef = useRef<HTMLCanvasElement>(null);
+    const subMapCanvasRef = useRef<HTMLCanvasElement>(null);
+    const partyCanvasRef = useRef<HTMLCanvasElement>(null);
     const polyCanvasRef = useRef<HTMLCanvasElement>(null);
     const selectionCanvasRef = useRef<HTMLCanvasElement>(null);
-    const [pixelsPerMile, setPixelsPerMile] = useState<number>(22.56);
-    const [hexMiles, setHexMiles] = useState<number>(6);
-    const [outlineColor, setOutlineColor] = useState<string>('black');
-    const [downloadUrl, setDownloadUrl] = useState<string>('');
+    // the padded image at full resolution; the map layer only shows the part in view
+    const [mapImage, setMapImage] = useState<HTMLCanvasElement | null>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const [view, setView] = useState<Viewport>(DEFAULT_VIEWPORT);
+    const [viewSize, setViewSize] = useState<Size>({ width: 800, height: 600 });
+    // last pointer position of a pan drag, in screen pixels
+    const panDragRef = useRef<Point | null>(null);
+    const gridWorkerRef = useRef<GridWorkerClient | null>(null);
+    // bumped when grid tiles arrive from the worker, to draw them
+    const [tileVersion, setTileVersion] = useState<number>(0);
+    const [pixelsPerMile, setPixelsPerMile] = useState<number>(DEFAULT_SETTINGS.pixelsPerMile);
+    const [hexMiles, setHexMiles] = useState<number>(DEFAULT_SETTINGS.hexMiles);
+    const [subHexMiles, setSubHexMiles] = useState<number>(DEFAULT_SETTINGS.subHexMiles);
+    const [gridStyle, setGridStyle] = useState<GridLineStyle>(DEFAULT_SETTINGS.gridStyle);
+    const [subGridStyle, setSubGridStyle] = useState<GridLineStyle>(DEFAULT_SETTINGS.subGridStyle);
     const [vertices, setVertices] = useState<Point[]>([]);
-    const [polygons, setPolygons] = useState<Point[][]>([]);
-    const [selectedPolygons, setSelectedPolygons] = useState<Point[][] | null>(null);
-    const [shouldDrawCoordinates, setShouldDrawCoordinates] = useState<boolean>(false);
+    const [regions, setRegions] = useState<Region[]>([]);
+    const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+    // polygons of the visible regions, for the drawing and editing tools
+    const polygons = React.useMemo(() => regions.filter(region => region.visible).map(region => region.polygon), [regions]);
+    const selectedPolygons = React.useMemo(() => {
+        const region = regions.find(region => region.id === selectedRegionId);
+        return region && region.visible ? [region.polygon] : null;
+    }, [regions, selectedRegionId]);
+    const [shouldDrawCoordinates, setShouldDrawCoordinates] = useState<boolean>(DEFAULT_SETTINGS.shouldDrawCoordinates);
+    const [grid, setGrid] = useState<HexGrid | null>(null);
+    const [subGrid, setSubGrid] = useState<SubGrid | null>(null);
+    // key of the large hex open as a sub-map
+    const [subMapKey, setSubMapKey] = useState<string | null>(null);
+    const subMapCell = (grid && subMapKey) ? grid.byKey.get(subMapKey) ?? null : null;
+    const subMapCells = React.useMemo(
+        () => subGrid && subMapKey ? subHexesOf(subGrid, subMapKey) : [],
+        [subGrid, subMapKey]
+    );
+    const [hexData, setHexData] = useState<HexDataMap>({});
+    // painted data plus region default terrains; what rendering, exports and travel read
+    const resolvedHexData = React.useMemo(() => withRegionTerrain(grid, hexData, regions), [grid, hexData, regions]);
+    const [inspectedKey, setInspectedKey] = useState<string | null>(null);
+    const inspectedCell = (grid && inspectedKey) ? grid.byKey.get(inspectedKey) ?? null : null;
+    const [terrainPalette, setTerrainPalette] = useState<TerrainType[]>(DEFAULT_TERRAIN_PALETTE);
+    const [brush, setBrush] = useState<string>(DEFAULT_TERRAIN_PALETTE[0].name);
+    const [isPainting, setIsPainting] = useState<boolean>(false);
+    const [shouldDrawLegend, setShouldDrawLegend] = useState<boolean>(DEFAULT_SETTINGS.shouldDrawLegend);
+    const [projectImage, setProjectImage] = useState<ProjectImage | null>(null);
+    const [shouldEmbedImage, setShouldEmbedImage] = useState<boolean>(true);
+    const [hasLoadedAutosave, setHasLoadedAutosave] = useState<boolean>(false);
+    const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([]);
+    const [calibrationDistance, setCalibrationDistance] = useState<number>(10);
+    const [calibrationUnit, setCalibrationUnit] = useState<DistanceUnit>('mi');
+    const calibratedPpm = pixelsPerMileFromRuler(calibrationPoints, calibrationDistance, calibrationUnit);
+    const [gridLayout, setGridLayout] = useState<GridLayout>(DEFAULT_SETTINGS.gridLayout);
+    const [labelStyle, setLabelStyle] = useState<LabelStyle>(DEFAULT_SETTINGS.labelStyle);
+    const [coverage, setCoverage] = useState<CoverageSettings>(DEFAULT_SETTINGS.coverage);
+    const [shouldExportSvgImage, setShouldExportSvgImage] = useState<boolean>(true);
+    const [printOptions, setPrintOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+    const [isExportingPdf, setIsExportingPdf] = useState<boolean>(false);
+    const [revealedHexes, setRevealedHexes] = useState<string[]>([]);
+    const revealedSet = React.useMemo(() => new Set(revealedHexes), [revealedHexes]);
+    const [party, setParty] = useState<PartyState>(EMPTY_PARTY);
+    const [travelSettings, setTravelSettings] = useState<TravelSettings>(DEFAULT_TRAVEL_SETTINGS);
+    const [measureKeys, setMeasureKeys] = useState<string[]>([]);
+    const [shouldUseTerrainCost, setShouldUseTerrainCost] = useState<boolean>(true);
+    const [shouldAvoidMasked, setShouldAvoidMasked] = useState<boolean>(true);
+    const [rollTables, setRollTables] = useState<RollTable[]>([]);
+    const [rollSettings, setRollSettings] = useState<RollSettings>(DEFAULT_ROLL_SETTINGS);
+    const [lastRolls, setLastRolls] = useState<string[]>([]);
+    const playerWindowRef = useRef<Window | null>(null);
+    const [gridDrag, setGridDrag] = useState<{ start: Point; offset: Point } | null>(null);
+    const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+    const [wandOptions, setWandOptions] = useState<WandOptions>(DEFAULT_WAND_OPTIONS);
+    const [lastWandResult, setLastWandResult] = useState<string | null>(null);
+    const [stamps, setStamps] = useState<Stamp[]>([]);
+    const [stampIcons, setStampIcons] = useState<StampIcon[]>([]);
+    // the uploaded icons decoded for drawing
+    const [stampImages, setStampImages] = useState<StampImages>(new Map());
+    const [stampOptions, setStampOptions] = useState<StampOptions>(DEFAULT_STAMP_OPTIONS);
+    const [selectedStampId, setSelectedStampId] = useState<string | null>(null);
+    const selectedStamp = stamps.find(stamp => stamp.id === selectedStampId) ?? null;
+    // stamp being dragged by the Stamp tool, from where it was picked up
+    const stampDragRef = useRef<{ id: string; start: Point; original: Point } | null>(null);
+    // polygon being dragged by the Edit tool; `current` is the array now in state and
+    // `isRecorded` turns true once the pre-drag state is in the undo history
+    const polygonDragRef = useRef<{ vertex: number | null; start: Point; original: Point[]; current: Point[]; isRecorded: boolean } | null>(null);
+
+    // Remember the regions as they are now, before an edit changes them
+    const recordEdit = () => {
+        setEditHistory(prev => recordSnapshot(prev, { vertices, regions, selectedRegion: selectedRegionId }));
+    };
+
+    const restoreSnapshot = (snapshot: PolygonSnapshot) => {
+        setVertices(snapshot.vertices);
+        setRegions(snapshot.regions);
+        setSelectedRegionId(snapshot.selectedRegion);
+    };
+
+    const undo = () => {
+        const step = undoSnapshot(editHistory, { vertices, regions, selectedRegion: selectedRegionId });
+        if (!step) return;
+        setEditHistory(step.history);
+        restoreSnapshot(step.snapshot);
+    };
+
+    const redo = () => {
+        const step = redoSnapshot(editHistory, { vertices, regions, selectedRegion: selectedRegionId });
+        if (!step) return;
+        setEditHistory(step.history);
+        restoreSnapshot(step.snapshot);
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), leaving text fields their own undo
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
 
-    // finalize current drawing into polygons if >=3 points
+    // finalize current drawing into a new region if >=3 points
     const finalize = () => {
+        if (vertices.length > 0) recordEdit();
         if (vertices.length >= 3) {
-            setPolygons(prev => [...prev, vertices]);
+            setRegions(prev => [...prev, newRegion(vertices, prev)]);
         }
         setVertices([]);
     }
@@ -264,157 +314,845 @@ function App() {
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (!e.target.files || e.target.files.length === 0) return;
         setImageFile(e.target.files[0]);
-        setDownloadUrl('');
     };
 
-    function clearCanvas(canvasRef: RefObject<HTMLCanvasElement>) {
+    function clearCanvas(canvasRef: RefObject<HTMLCanvasElement | null>) {
         if (!canvasRef.current) return;
         const ctx = canvasRef.current.getContext('2d');
         if (ctx) {
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
             ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
         }
     }
 
-    function handleGenerate() {
-        if (!imageFile || !mapCanvasRef.current || !polyCanvasRef.current || !selectionCanvasRef.current) return;
-        const mapCanvas = mapCanvasRef.current;
-        const polyCanvas = polyCanvasRef.current;
-        const selectionCanvas = selectionCanvasRef.current;
-        const mapCtx = mapCanvas.getContext('2d');
-        if (!mapCtx) return;
+    // the map and view size as of the last render, for the image loader to compare against
+    const loadedMapRef = useRef<{ mapImage: HTMLCanvasElement | null; viewSize: Size }>({ mapImage: null, viewSize });
+    useEffect(() => {
+        loadedMapRef.current = { mapImage, viewSize };
+    }, [mapImage, viewSize]);
 
+    // Decode the uploaded image into the padded full-resolution map
+    useEffect(() => {
+        if (!imageFile) return;
+        let isCurrent = true;
+        const url = URL.createObjectURL(imageFile);
         const img = new Image();
         img.onload = () => {
-            mapCanvas.width = img.width + PADDING * 2;
-            mapCanvas.height = img.height + PADDING * 2;
-            polyCanvas.width = mapCanvas.width;
-            polyCanvas.height = mapCanvas.height;
-            selectionCanvas.width = mapCanvas.width;
-            selectionCanvas.height = mapCanvas.height;
-            mapCtx.clearRect(0, 0, mapCanvas.width, mapCanvas.height);
-            mapCtx.drawImage(img, PADDING, PADDING);
-            // overlay hex grid
-            overlayHexGrid(mapCtx, img.width, img.height, pixelsPerMile, hexMiles, outlineColor, polygons, selectedPolygons ?? []);
-
-            if (shouldDrawCoordinates) {
-                // @TODO - WIP - Make overlay hex grid instead return a list of all the hexagons it calculated, include a boolean on whether it actually drew it or not.
-                // Then feed this list int annotateHexCoords or something similar to properly only place coordinates inside the hexes that were drawn.
-                // Then, add UI features for a checkbox to show coords or not, plus some inputs for the text color, font style, and coord style.
-                // @TODO - Also todo - add a different canvas for hexagons and coordinates, possibly this will help with performance?
-                const hexesRowsCols: IHexesRowsCols = computeHexGrid(mapCanvas.width, mapCanvas.height, pixelsPerMile, hexMiles);
-                annotateHexCoords(mapCtx, hexesRowsCols, pixelsPerMile, hexMiles, polygons, selectedPolygons ?? []);
-            }
+            URL.revokeObjectURL(url);
+            if (!isCurrent) return;
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width + MAP_PADDING * 2;
+            canvas.height = img.height + MAP_PADDING * 2;
+            canvas.getContext('2d')?.drawImage(img, MAP_PADDING, MAP_PADDING);
+            // a new map starts fully in view; reloading one of the same size keeps the view
+            const { mapImage: previous, viewSize: screen } = loadedMapRef.current;
+            if (!previous || previous.width !== canvas.width || previous.height !== canvas.height) setView(fitViewport(canvas, screen));
+            setMapImage(canvas);
+        };
+        img.src = url;
+        return () => {
+            isCurrent = false;
+        };
+    }, [imageFile]);
 
-            if (tool === Tool.Draw) drawPolygons();
-            // update download link
-            const url = mapCanvas.toDataURL('image/png');
-            setDownloadUrl(url);
+    // The grid is computed and its tiles drawn off the main thread
+    useEffect(() => {
+        const client = createGridWorkerClient((grid, subGrid) => {
+            setGrid(grid);
+            setSubGrid(subGrid);
+        }, () => setTileVersion(prev => prev + 1));
+        gridWorkerRef.current = client;
+        return () => {
+            client.dispose();
+            gridWorkerRef.current = null;
         };
-        img.src = URL.createObjectURL(imageFile);
+    }, []);
+
+    // Regenerate the grid whenever anything it depends on changes; the worker skips superseded requests
+    useEffect(() => {
+        if (!mapImage || !isHexSizeUsable(pixelsPerMile, hexMiles)) return;
+        gridWorkerRef.current?.requestGrid({
+            width: mapImage.width,
+            height: mapImage.height,
+            pixelsPerMile,
+            hexMiles,
+            subHexMiles: isHexSizeUsable(pixelsPerMile, subHexMiles) ? subHexMiles : 0,
+            layout: gridLayout,
+            regions,
+            coverage,
+        });
+    }, [mapImage, pixelsPerMile, hexMiles, subHexMiles, gridLayout, regions, coverage]);
+
+    // how the grid layer is drawn, in the worker's tiles and in the exports alike
+    const gridLayerStyle: GridLayerStyle = React.useMemo(() => ({
+        lines: gridStyle,
+        subLines: subGridStyle,
+        labelStyle: shouldDrawCoordinates ? labelStyle : null,
+        labelInset: MAP_PADDING,
+        regions,
+        shouldClip: coverage.shouldClip,
+    }), [gridStyle, subGridStyle, shouldDrawCoordinates, labelStyle, regions, coverage.shouldClip]);
+
+    useEffect(() => {
+        gridWorkerRef.current?.setStyle(gridLayerStyle);
+    }, [gridLayerStyle]);
+
+    // Display canvases follow the size of the view area
+    useEffect(() => {
+        const container = viewportRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => setViewSize({ width: container.clientWidth, height: container.clientHeight }));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [imageFile]);
+
+    // Wheel zoom around the pointer; a native listener, since React's wheel events can't preventDefault
+    useEffect(() => {
+        const container = viewportRef.current;
+        if (!container) return;
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const bounds = container.getBoundingClientRect();
+            setView(prev => zoomAt(prev, { x: e.clientX - bounds.left, y: e.clientY - bounds.top }, Math.exp(-e.deltaY * 0.0015)));
+        };
+        container.addEventListener('wheel', onWheel, { passive: false });
+        return () => container.removeEventListener('wheel', onWheel);
+    }, [imageFile]);
+
+    const zoomBy = (factor: number) => setView(prev => zoomAt(prev, { x: viewSize.width / 2, y: viewSize.height / 2 }, factor));
+
+    // only the hexes in view, for the layers that draw every hex
+    const visibleGrid = React.useMemo(
+        () => grid ? { ...grid, cells: cellsNear(grid.cells, visibleRect(view, viewSize), grid.hexWidth + grid.hexHeight) } : null,
+        [grid, view, viewSize]
+    );
+
+    // The part of the map in view
+    useEffect(() => {
+        const ctx = beginLayer(mapCanvasRef.current, view);
+        if (ctx && mapImage) ctx.drawImage(mapImage, 0, 0);
+    }, [mapImage, view, viewSize]);
+
+    // Grid tiles in view, asking the worker for any that aren't ready; style changes restart the tiles
+    useEffect(() => {
+        const ctx = beginLayer(gridCanvasRef.current, view);
+        const client = gridWorkerRef.current;
+        if (!ctx || !grid || !client) return;
+        drawTiles(ctx, view, grid, tile => client.tile(tile), key => client.cachedTile(key));
+    }, [grid, subGrid, view, viewSize, tileVersion, gridLayerStyle]);
+
+    // An open sub-map dims the rest of the map and numbers its sub-hexes
+    useEffect(() => {
+        const ctx = beginLayer(subMapCanvasRef.current, view);
+        if (!ctx || !subMapCell || !subGrid) return;
+        dimOutsideHex(ctx, subMapCell, visibleRect(view, viewSize));
+        drawSubHexNumbers(ctx, subMapCells, subGrid.grid.radius);
+    }, [subMapCell, subMapCells, subGrid, view, viewSize]);
+
+    // Repaint terrain fills beneath the grid outlines
+    useEffect(() => {
+        const ctx = beginLayer(terrainCanvasRef.current, view);
+        if (!ctx || !visibleGrid) return;
+        drawTerrainLayer(ctx, visibleGrid, resolvedHexData, terrainPalette, regions, coverage.shouldClip);
+    }, [visibleGrid, resolvedHexData, terrainPalette, regions, coverage.shouldClip, view]);
+
+    // Decode the uploaded stamp icons; a newer list wins over one still loading
+    useEffect(() => {
+        let isCurrent = true;
+        loadStampImages(stampIcons, loadImageElement).then(images => {
+            if (isCurrent) setStampImages(images);
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, [stampIcons]);
+
+    // Stamps over the grid, GM-only ones included and outlined while stamping
+    useEffect(() => {
+        const ctx = beginLayer(stampCanvasRef.current, view);
+        if (!ctx || !grid) return;
+        drawStamps(ctx, grid, stamps, stampImages);
+        if (tool === Tool.Stamp) outlineStamps(ctx, grid, stamps, selectedStampId, 2 / view.zoom);
+    }, [grid, stamps, stampImages, tool, selectedStampId, view, viewSize]);
+
+    // Party token sits on its own layer so it stays out of the exports
+    useEffect(() => {
+        const ctx = beginLayer(partyCanvasRef.current, view);
+        if (!ctx || !grid) return;
+        drawPartyToken(ctx, grid, party);
+    }, [grid, party, view, viewSize]);
+
+    // blank canvas the size of the padded map, for full-resolution output
+    const fullSizeContext = React.useCallback((): CanvasRenderingContext2D | null => {
+        if (!mapImage) return null;
+        const output = document.createElement('canvas');
+        output.width = mapImage.width;
+        output.height = mapImage.height;
+        return output.getContext('2d');
+    }, [mapImage]);
+
+    // Stack the map, terrain, grid, stamps and (if asked) the legend into one canvas for export
+    function composeLayers(withLegend = false): CanvasRenderingContext2D | null {
+        const ctx = fullSizeContext();
+        if (!ctx || !mapImage || !grid) return null;
+        renderOverlay(ctx, mapImage, { grid, subGrid }, {
+            hexData: resolvedHexData,
+            terrainPalette,
+            gridStyle: gridLayerStyle,
+            stamps,
+            stampImages,
+            shouldDrawLegend: withLegend && shouldDrawLegend,
+        }, fullSizeContext);
+        return ctx;
     }
 
-    // Draw the uploaded image on canvas with padding
-    React.useEffect(handleGenerate, [imageFile, shouldDrawCoordinates]);
+    function drawLegend(ctx: CanvasRenderingContext2D) {
+        if (shouldDrawLegend) drawMapLegend(ctx, resolvedHexData, terrainPalette);
+    }
+
+    // Composite map, terrain, grid, stamps and legend into a full-resolution PNG
+    const handleDownloadImage = () => {
+        const ctx = composeLayers(true);
+        if (!ctx) return;
+        ctx.canvas.toBlob(blob => {
+            if (blob) downloadBlob(blob, 'hexed-image.png');
+        }, 'image/png');
+    };
+
+    const openSubMap = (key: string) => {
+        const cell = grid?.byKey.get(key);
+        if (!cell) return;
+        setSubMapKey(key);
+        setView(fitRect(cellBounds(cell), viewSize));
+    };
+
+    const closeSubMap = () => {
+        setSubMapKey(null);
+        if (mapImage) setView(fitViewport(mapImage, viewSize));
+    };
+
+    // The open sub-map's large hex cut out of the full export, with its sub-hexes numbered
+    const handleDownloadSubMap = () => {
+        const source = composeLayers();
+        if (!source || !subMapCell || !subGrid || !subMapKey) return;
+        const bounds = cellBounds(subMapCell);
+        const output = document.createElement('canvas');
+        output.width = Math.ceil(bounds.width);
+        output.height = Math.ceil(bounds.height);
+        const ctx = output.getContext('2d');
+        if (!ctx) return;
+        ctx.translate(-bounds.x, -bounds.y);
+        ctx.beginPath();
+        subMapCell.corners.forEach((pt, i) => {
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
+        });
+        ctx.closePath();
+        ctx.clip();
+        ctx.drawImage(source.canvas, 0, 0);
+        drawSubHexNumbers(ctx, subMapCells, subGrid.grid.radius);
+        output.toBlob(blob => {
+            if (blob) downloadBlob(blob, `sub-map-${hexLabelFor(subMapKey)}.png`);
+        }, 'image/png');
+    };
+
+    // Map, terrain and player stamps inside revealed hexes only, with the full grid on top
+    const renderPlayerView = React.useCallback((): HTMLCanvasElement | null => {
+        if (!grid || !mapImage) return null;
+        const renderLayer = (draw: (ctx: CanvasRenderingContext2D) => void) => {
+            const ctx = fullSizeContext();
+            if (ctx) draw(ctx);
+            return ctx?.canvas ?? null;
+        };
+        const terrainLayer = renderLayer(ctx => drawTerrainLayer(ctx, grid, resolvedHexData, terrainPalette, regions, coverage.shouldClip));
+        const stampLayer = renderLayer(ctx => drawStamps(ctx, grid, playerStamps(stamps), stampImages));
+        const gridLayer = renderLayer(ctx => drawGridLayer(ctx, grid, subGrid, gridLayerStyle));
+        const ctx = fullSizeContext();
+        if (!terrainLayer || !stampLayer || !gridLayer || !ctx) return null;
+        drawPlayerView(ctx, grid, revealedSet, [mapImage, terrainLayer, stampLayer], gridLayer);
+        return ctx.canvas;
+    }, [grid, subGrid, mapImage, fullSizeContext, resolvedHexData, terrainPalette, regions, coverage.shouldClip, stamps, stampImages, gridLayerStyle, revealedSet]);
+
+    const updatePlayerWindow = React.useCallback(() => {
+        const win = playerWindowRef.current;
+        if (!win || win.closed) return;
+        const img = win.document.getElementById('player-view') as HTMLImageElement | null;
+        const view = renderPlayerView();
+        if (img && view) img.src = view.toDataURL('image/png');
+    }, [renderPlayerView]);
+
+    const openPlayerWindow = () => {
+        const win = window.open('', 'hex-player-view');
+        if (!win) {
+            window.alert('Allow pop-ups for this site to open the player view.');
+            return;
+        }
+        win.document.title = 'Player View';
+        win.document.body.style.cssText = 'margin: 0; background: #1b1b1b;';
+        const img = win.document.createElement('img');
+        img.id = 'player-view';
+        img.style.maxWidth = '100%';
+        win.document.body.replaceChildren(img);
+        playerWindowRef.current = win;
+        updatePlayerWindow();
+    };
+
+    const handleDownloadPlayerView = () => {
+        renderPlayerView()?.toBlob(blob => {
+            if (blob) downloadBlob(blob, 'player-view.png');
+        }, 'image/png');
+    };
+
+    // Keep an open player window in sync with reveals and map edits (skipped mid-stroke)
+    useEffect(() => {
+        if (!isPainting && !gridDrag) updatePlayerWindow();
+    }, [updatePlayerWindow, isPainting, gridDrag]);
+
+    // the image itself, without the canvas padding
+    const printRegion = grid ? { x: MAP_PADDING, y: MAP_PADDING, width: grid.width - MAP_PADDING * 2, height: grid.height - MAP_PADDING * 2 } : null;
+    const printLayout = grid && printRegion ? computePrintLayout(grid, printRegion, printOptions) : null;
+
+    const handleExportPdf = async () => {
+        const ctx = composeLayers();
+        if (!ctx || !printRegion || !printLayout) return;
+        // masked areas print blank
+        blankMaskedAreas(ctx, regions);
+        drawLegend(ctx);
+        setIsExportingPdf(true);
+        try {
+            downloadBlob(await buildTiledPdf(ctx.canvas, printRegion, printLayout, printOptions), 'hexed-map-print.pdf');
+        } catch (err) {
+            console.error('PDF export failed', err);
+            window.alert('Could not build the PDF.');
+        } finally {
+            setIsExportingPdf(false);
+        }
+    };
 
     // Draw vertices and polygon on polygon canvas when vertices change
-    function drawPolygons(canvasRef: RefObject<HTMLCanvasElement> = polyCanvasRef, listOfPolygons: Point[][] = polygons, polygonsToOmit: Point[][] | null = selectedPolygons, color: string | null = null) {
+    const drawPolygons = React.useCallback((canvasRef: RefObject<HTMLCanvasElement | null>, listOfPolygons: Point[][], polygonsToOmit: Point[][] | null, color: string | null = null) => {
         if (!canvasRef.current || tool === null) return;
-        const canvas = canvasRef.current;
-        const ctx = canvas.getContext('2d');
+        const ctx = beginLayer(canvasRef.current, view);
         if (!ctx) return;
 
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        [vertices, ...listOfPolygons].forEach((polygon, index, polygons) => {
+        [vertices, ...listOfPolygons].forEach((polygon, index) => {
             // if the polygon isn't inside the selected polygons, draw it
             if (polygonsToOmit && polygonsToOmit.includes(polygon)) return;
             const fillColor = color || (index === 0 ? 'rgba(255,0,0,0.3)' : 'rgba(255,0,0,0.15)');
-            drawPolygon(ctx, polygon, fillColor); // Current one (vertices) is darker so it's easier to see while editing
+            drawPolygon(ctx, polygon, view.zoom, fillColor); // Current one (vertices) is darker so it's easier to see while editing
         })
-    }
+    }, [tool, view, vertices]);
 
-    useEffect(() => drawPolygons(polyCanvasRef, polygons, selectedPolygons, null), [vertices, polygons, selectedPolygons, tool]);
+    useEffect(() => drawPolygons(polyCanvasRef, polygons, selectedPolygons, null), [drawPolygons, polygons, selectedPolygons, viewSize]);
 
-    // Draw filled polygon when 3+ vertices
-    const drawPolygon = (ctx: CanvasRenderingContext2D, polygon: Point[], color: string = 'rgba(255,0,0,0.3)') => {
-        if (polygon.length < 1) return;
+    // Convert a mouse event to map pixels through the current pan and zoom
+    const toCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point | null => {
+        const canvas = mapCanvasRef.current;
+        if (!canvas) return null;
+        const rect = canvas.getBoundingClientRect();
+        return screenToWorld(view, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
 
-        // draw marker for each vertex
-        ctx.fillStyle = 'red';
-        polygon.forEach(({ x, y }) => {
-            ctx.beginPath();
-            ctx.arc(x, y, 4, 0, Math.PI * 2);
-            ctx.fill();
+    // set the brush terrain on the drawn hex under a point
+    const paintAt = (point: Point) => {
+        const cell = grid ? hexAt(grid, point) : null;
+        if (!cell || !cell.drawn) return;
+        const key = hexKey(cell.col, cell.row);
+        setHexData(prev => {
+            const current = prev[key] ?? EMPTY_HEX_DATA;
+            if (current.terrain === brush) return prev;
+            return updateHexData(prev, key, { ...current, terrain: brush });
         });
+    };
 
-        if (polygon.length >= 3) {
-            ctx.fillStyle = color;
-            ctx.beginPath();
-            polygon.forEach((pt, i) => {
-                if (i === 0) ctx.moveTo(pt.x, pt.y);
-                else ctx.lineTo(pt.x, pt.y);
-            });
-            ctx.closePath();
-            ctx.fill();
+    const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        // middle-button drags pan with any tool
+        if (e.button === 1 || (e.button === 0 && tool === Tool.Pan)) {
+            e.preventDefault();
+            panDragRef.current = { x: e.clientX, y: e.clientY };
+            return;
+        }
+        const point = toCanvasPoint(e);
+        if (!point) return;
+        if (tool === Tool.Paint) {
+            setIsPainting(true);
+            paintAt(point);
+        }
+        if (tool === Tool.MoveGrid) {
+            setGridDrag({ start: point, offset: gridLayout.offset });
         }
+        if (tool === Tool.Edit) startPolygonEdit(point);
+        if (tool === Tool.Stamp) startStamp(point);
+    };
+
+    // pick up the stamp under the point, or else put down a new one
+    function startStamp(point: Point) {
+        if (!grid) return;
+        const hit = stampAt(grid, stamps, point);
+        if (hit) {
+            setSelectedStampId(hit.id);
+            stampDragRef.current = { id: hit.id, start: point, original: hit.position };
+            return;
+        }
+        const cell = hexAt(grid, point);
+        const stamp = newStamp(grid, stampOptions, point, cell && cell.drawn ? hexKey(cell.col, cell.row) : null);
+        if (!stamp) return;
+        setStamps(prev => [...prev, stamp]);
+        setSelectedStampId(stamp.id);
+    }
+
+    // snapped stamps hop between hex centers; free ones follow the pointer
+    function dragStamp(point: Point) {
+        const drag = stampDragRef.current;
+        if (!drag || !grid) return;
+        const cell = hexAt(grid, point);
+        setStamps(prev => prev.map(stamp => {
+            if (stamp.id !== drag.id) return stamp;
+            if (stamp.hex === null) return { ...stamp, position: { x: drag.original.x + point.x - drag.start.x, y: drag.original.y + point.y - drag.start.y } };
+            if (!cell || !cell.drawn) return stamp;
+            return { ...stamp, hex: hexKey(cell.col, cell.row), position: cell.center };
+        }));
+    }
+
+    // grab a vertex, or add one where an edge was clicked, or else grab the polygon under the point
+    function startPolygonEdit(point: Point) {
+        const tolerance = HIT_RADIUS * canvasScale();
+        const vertexHit = findVertex(polygons, point, tolerance);
+        if (vertexHit) {
+            const polygon = polygons[vertexHit.polygon];
+            polygonDragRef.current = { vertex: vertexHit.vertex, start: point, original: polygon, current: polygon, isRecorded: false };
+            return;
+        }
+        const edgeHit = findEdge(polygons, point, tolerance);
+        if (edgeHit) {
+            const polygon = polygons[edgeHit.polygon];
+            const inserted = insertVertex(polygon, edgeHit.vertex, edgeHit.point);
+            recordEdit();
+            replacePolygon(polygon, inserted);
+            polygonDragRef.current = { vertex: edgeHit.vertex + 1, start: point, original: inserted, current: inserted, isRecorded: true };
+            return;
+        }
+        const polygon = [...polygons].reverse().find(poly => pointInPolygon(point, poly));
+        if (polygon) polygonDragRef.current = { vertex: null, start: point, original: polygon, current: polygon, isRecorded: false };
+    }
+
+    // swap a region's polygon for its edited copy
+    function replacePolygon(polygon: Point[], next: Point[]) {
+        setRegions(prev => prev.map(region => region.polygon === polygon ? { ...region, polygon: next } : region));
+    }
+
+    // map pixels per screen pixel, so hit radii feel the same at any zoom
+    function canvasScale() {
+        return 1 / view.zoom;
+    }
+
+    // right-click removes a single vertex (polygons keep at least three)
+    const handleCanvasContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (tool !== Tool.Edit) return;
+        e.preventDefault();
+        const point = toCanvasPoint(e);
+        if (!point) return;
+        const hit = findVertex(polygons, point, HIT_RADIUS * canvasScale());
+        if (!hit) return;
+        const polygon = polygons[hit.polygon];
+        const next = removeVertex(polygon, hit.vertex);
+        if (!next) return;
+        recordEdit();
+        replacePolygon(polygon, next);
+    };
+
+    const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const pan = panDragRef.current;
+        if (pan) {
+            setView(prev => panBy(prev, e.clientX - pan.x, e.clientY - pan.y));
+            panDragRef.current = { x: e.clientX, y: e.clientY };
+            return;
+        }
+        const point = toCanvasPoint(e);
+        if (!point) return;
+        if (tool === Tool.Paint && isPainting) paintAt(point);
+        if (tool === Tool.Stamp) dragStamp(point);
+        const drag = polygonDragRef.current;
+        if (tool === Tool.Edit && drag) {
+            // a click without movement isn't worth an undo step
+            if (!drag.isRecorded) {
+                recordEdit();
+                drag.isRecorded = true;
+            }
+            const next = drag.vertex === null
+                ? translatePolygon(drag.original, point.x - drag.start.x, point.y - drag.start.y)
+                : moveVertex(drag.original, drag.vertex, point);
+            replacePolygon(drag.current, next);
+            drag.current = next;
+        }
+        if (tool === Tool.MoveGrid && gridDrag) {
+            const layout = {
+                ...gridLayout,
+                offset: { x: gridDrag.offset.x + point.x - gridDrag.start.x, y: gridDrag.offset.y + point.y - gridDrag.start.y },
+            };
+            setGridLayout(layout);
+        }
+    };
+
+    const handleCanvasMouseUp = () => {
+        setIsPainting(false);
+        setGridDrag(null);
+        polygonDragRef.current = null;
+        stampDragRef.current = null;
+        panDragRef.current = null;
     };
 
     // Handle canvas clicks for Draw tool with proper scaling
     const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        const canvas = mapCanvasRef.current;
-        const rect = canvas.getBoundingClientRect();
-        const scaleX = canvas.width / rect.width;
-        const scaleY = canvas.height / rect.height;
-        const x = (e.clientX - rect.left) * scaleX;
-        const y = (e.clientY - rect.top) * scaleY;
+        const point = toCanvasPoint(e);
+        if (!point) return;
+        const { x, y } = point;
 
         if (tool === Tool.Delete) {
-            // remove polygon under click
-            const newPolygons = polygons.filter(poly => !pointInPolygon({ x, y }, poly));
-            const newSelectedPolygons = selectedPolygons ? selectedPolygons.filter(poly => !pointInPolygon({ x, y }, poly)) : null;
-            setPolygons(newPolygons);
-            setSelectedPolygons(newSelectedPolygons);
-
-            drawPolygons(selectionCanvasRef, newSelectedPolygons ?? [], [], 'rgba(0, 0, 255, 0.3)'); // Draw selected polygons in blue
-            drawPolygons(polyCanvasRef, newPolygons, selectedPolygons);
+            // remove the topmost region under click
+            const region = regionAt(regions, { x, y });
+            if (region) updateRegions(regions.filter(r => r !== region));
         }
         if (tool === Tool.Draw) {
+            recordEdit();
             setVertices(prev => [...prev, { x, y }]);
         }
+        if (tool === Tool.Wand) maskByColorAt({ x, y });
+        if (tool === Tool.Calibrate) {
+            // a third click starts a new measurement
+            setCalibrationPoints(prev => prev.length >= 2 ? [{ x, y }] : [...prev, { x, y }]);
+        }
+        if (tool === Tool.Reveal && grid) {
+            const cell = hexAt(grid, { x, y });
+            if (cell && cell.drawn) setRevealedHexes(prev => toggleRevealed(prev, hexKey(cell.col, cell.row)));
+        }
+        if (tool === Tool.Measure && grid) {
+            const cell = hexAt(grid, { x, y });
+            // a third click starts a new measurement
+            if (cell) setMeasureKeys(prev => prev.length >= 2 ? [hexKey(cell.col, cell.row)] : [...prev, hexKey(cell.col, cell.row)]);
+        }
+        if (tool === Tool.Roll && grid) {
+            const cell = hexAt(grid, { x, y });
+            if (cell && cell.drawn) {
+                const lines = rollEncountersAt(cell);
+                setLastRolls(lines.length > 0 ? lines : ['Nothing turns up.']);
+            }
+        }
+        if (tool === Tool.Party && grid) {
+            const cell = hexAt(grid, { x, y });
+            if (cell && cell.drawn) moveParty(cell);
+        }
+        if (tool === Tool.Inspect && grid) {
+            const cell = hexAt(grid, { x, y });
+            setInspectedKey(cell && cell.drawn ? hexKey(cell.col, cell.row) : null);
+        }
         if (tool === Tool.Select) {
-            // See if any of the polygons are clicked.
-            const clickedPolygons = polygons.filter (poly => pointInPolygon({ x, y }, poly));
-            // add the polygon to the list of selected polygons
-            const copyOfSelectedPolygons = selectedPolygons ? [...selectedPolygons] : [];
-            clickedPolygons.forEach(poly => {
-                if (!copyOfSelectedPolygons?.includes(poly)) {
-                    copyOfSelectedPolygons.push(poly);
-                } else {
-                    // if the polygon was already selected, remove it
-                    const index = copyOfSelectedPolygons.indexOf(poly);
-                    if (index > -1) {
-                        copyOfSelectedPolygons.splice(index, 1);
-                    }
-                }
-            })
+            // pick the topmost region under the click, or clear the selection
+            const region = regionAt(regions, { x, y });
+            const id = region && region.id !== selectedRegionId ? region.id : null;
+            if (id !== selectedRegionId) {
+                recordEdit();
+                setSelectedRegionId(id);
+            }
+        }
+    };
 
+    // mask the area of similar color around a point, keeping enclosed islands shown
+    function maskByColorAt(point: Point) {
+        const canvas = mapImage;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || canvas.width <= MAP_PADDING * 2 || canvas.height <= MAP_PADDING * 2) return;
+        const image = ctx.getImageData(MAP_PADDING, MAP_PADDING, canvas.width - MAP_PADDING * 2, canvas.height - MAP_PADDING * 2);
+        const result = wandSelect(image, { x: point.x - MAP_PADDING, y: point.y - MAP_PADDING }, wandOptions);
+        if (!result) {
+            setLastWandResult('Click inside the map image.');
+            return;
+        }
+        const toCanvas = (polygon: Point[]) => polygon.map(pt => ({ x: pt.x + MAP_PADDING, y: pt.y + MAP_PADDING }));
+        const masked = { ...newRegion(toCanvas(result.outline), regions), name: `Masked area ${regions.length + 1}` };
+        const islands = result.holes.map((hole, i): Region => ({
+            ...newRegion(toCanvas(hole), regions),
+            name: `${masked.name} island ${i + 1}`,
+            grid: 'show',
+        }));
+        recordEdit();
+        setRegions([...regions, masked, ...islands]);
+        setLastWandResult(islands.length > 0 ? `${masked.name} with ${islands.length} island${islands.length === 1 ? '' : 's'}` : masked.name);
+    }
 
-            setSelectedPolygons(copyOfSelectedPolygons.length > 0 ? copyOfSelectedPolygons : null);
-            drawPolygons(selectionCanvasRef, copyOfSelectedPolygons, [], 'rgba(0, 0, 255, 0.3)'); // Draw selected polygons in blue
-            drawPolygons(polyCanvasRef, polygons, selectedPolygons);
+    // region stack edits from the panel or the Delete tool; drops a selection that no longer exists
+    function updateRegions(next: Region[]) {
+        recordEdit();
+        setRegions(next);
+        if (!next.some(region => region.id === selectedRegionId)) setSelectedRegionId(null);
+    }
+
+    const handleUploadStampIcon = async (file: File) => {
+        try {
+            const icon: StampIcon = { id: crypto.randomUUID(), name: file.name.replace(/\.[^.]+$/, ''), dataUrl: await readFileAsDataUrl(file) };
+            await loadImageElement(icon.dataUrl);
+            setStampIcons(prev => [...prev, icon]);
+            setStampOptions(prev => ({ ...prev, icon: icon.id }));
+        } catch (err) {
+            console.error('Icon upload failed', err);
+            window.alert(`Could not use ${file.name} as an icon: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    // an uploaded icon goes together with the stamps that use it
+    const removeStampIcon = (id: string) => {
+        setStampIcons(prev => prev.filter(icon => icon.id !== id));
+        setStamps(prev => prev.filter(stamp => stamp.icon !== id));
+        if (stampOptions.icon === id) setStampOptions({ ...stampOptions, icon: DEFAULT_STAMP_OPTIONS.icon });
+    };
+
+    // First click places the party; later clicks log a move from its current hex along the
+    // cheapest route, paying each hex's terrain cost on the way
+    function moveParty(cell: HexCell) {
+        if (!grid) return;
+        const key = hexKey(cell.col, cell.row);
+        const from = party.position ? grid.byKey.get(party.position) : undefined;
+        if (!party.position || !from) {
+            setParty(partyFromLog([...party.log, startEntry(key)]));
+            return;
+        }
+        if (key === party.position) return;
+        const path = findHexPath(grid, from, cell, {
+            stepCost: step => terrainCost(terrainPalette, resolvedHexData[hexKey(step.col, step.row)]?.terrain),
+            avoidMasked: true,
+        });
+        if (!path) {
+            window.alert('The party has no route to that hex outside the masked areas.');
+            return;
+        }
+        const terrain = resolvedHexData[key]?.terrain ?? '';
+        const entry = planMove(party.log, travelSettings, party.position, key, path.cells.length - 1, hexMiles, terrain, path.cost);
+        setParty(partyFromLog([...party.log, entry]));
+        if (rollSettings.shouldRollOnEnter) rollEncountersAt(cell, ` (day ${entry.day}, watch ${entry.watch})`);
+    }
+
+    // Roll the encounter tables that apply to a hex and log the results in its notes
+    function rollEncountersAt(cell: HexCell, context = ''): string[] {
+        const key = hexKey(cell.col, cell.row);
+        const lines = tablesForHex(rollTables, 'encounter', cell, resolvedHexData[key]?.terrain ?? '', regions)
+            .map(table => {
+                const result = rollOnTable(table, Math.random);
+                return result ? resultLine(table, result) + context : null;
+            })
+            .filter((line): line is string => !!line);
+        if (lines.length > 0) {
+            setHexData(prev => updateHexData(prev, key, lines.reduce((data, line) => appendNote(data, line), prev[key] ?? EMPTY_HEX_DATA)));
         }
+        return lines;
+    }
+
+    // Seeded content goes into the selected region, or every drawn hex when nothing is selected
+    const populateCells = grid
+        ? grid.cells.filter(cell => cell.drawn && (!selectedPolygons || selectedPolygons.some(poly => pointInPolygon(cell.center, poly))))
+        : [];
+    const handlePopulate = () => {
+        setHexData(prev => populateHexes(prev, resolvedHexData, populateCells, rollTables, rollSettings.seed, regions));
+    };
+
+    // coordinate label of a hex key in the current label scheme
+    const hexLabelFor = (key: string) => {
+        const cell = grid?.byKey.get(key);
+        if (!grid || !cell) return key;
+        return formatHexLabel(grid, cell, findLabelOrigin(grid, labelStyle.origin, MAP_PADDING) ?? cell, labelStyle);
     };
 
-    // compute hover position for finalize button (scaled to CSS)
+    const measureCells = React.useMemo(
+        () => grid ? measureKeys.map(key => grid.byKey.get(key)).filter((cell): cell is HexCell => !!cell) : [],
+        [grid, measureKeys]
+    );
+    const measurePath = React.useMemo(() => {
+        if (!grid || measureCells.length < 2) return null;
+        return findHexPath(grid, measureCells[0], measureCells[1], {
+            stepCost: cell => shouldUseTerrainCost ? terrainCost(terrainPalette, resolvedHexData[hexKey(cell.col, cell.row)]?.terrain) : 1,
+            avoidMasked: shouldAvoidMasked,
+        });
+    }, [grid, measureCells, shouldUseTerrainCost, shouldAvoidMasked, resolvedHexData, terrainPalette]);
+
+    // The selection layer, redrawn for every tool as the view moves: selected polygons in blue
+    // under the active tool's overlay (inspected hex, scale bar preview, fog or measured route)
+    useEffect(() => {
+        drawPolygons(selectionCanvasRef, selectedPolygons || [], [], 'rgba(0, 0, 255, 0.3)');
+        const ctx = selectionCanvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        if (tool === Tool.Inspect && inspectedCell) highlightHex(ctx, inspectedCell, view.zoom);
+        if (tool === Tool.Calibrate) drawCalibrationPreview(ctx, calibrationPoints, calibratedPpm, hexMiles, gridLayout, view.zoom);
+        if (tool === Tool.Reveal && visibleGrid) drawFogPreview(ctx, visibleGrid, revealedSet);
+        if (tool === Tool.Measure) drawHexPath(ctx, measureCells, measurePath, view.zoom);
+    }, [tool, drawPolygons, selectedPolygons, inspectedCell, calibrationPoints, calibratedPpm, hexMiles, gridLayout, visibleGrid, revealedSet, measureCells, measurePath, view, viewSize]);
+
+    const applyCalibration = () => {
+        if (!calibratedPpm) return;
+        setPixelsPerMile(parseFloat(calibratedPpm.toFixed(2)));
+    };
+
+    // compute hover position for finalize button (in view pixels)
     const hoverPos = React.useMemo(() => {
-        if (vertices.length < 3 || !polyCanvasRef.current) return null;
+        if (vertices.length < 3) return null;
         const xs = vertices.map(v=>v.x), ys = vertices.map(v=>v.y);
-        const minX = Math.min(...xs), minY = Math.min(...ys);
-        const offset = 100;
-        const rect = polyCanvasRef.current.getBoundingClientRect();
-        const scale = rect.width / polyCanvasRef.current.width;
-        return { left: (minX - offset) * scale, top: (minY - offset) * scale };
-    }, [vertices]);
+        const offset = 32;
+        const corner = worldToScreen(view, { x: Math.min(...xs), y: Math.min(...ys) });
+        return { left: corner.x - offset, top: corner.y - offset };
+    }, [vertices, view]);
+
+    // Snapshot of everything needed to reopen this map
+    const buildProject = React.useCallback((embedImage: boolean): Project => ({
+        version: PROJECT_VERSION,
+        image: projectImage && (embedImage ? projectImage : { name: projectImage.name, type: projectImage.type }),
+        settings: { pixelsPerMile, hexMiles, subHexMiles, gridStyle, subGridStyle, shouldDrawCoordinates, shouldDrawLegend, gridLayout, labelStyle, coverage },
+        regions,
+        hexData,
+        terrainPalette,
+        revealedHexes,
+        party,
+        travelSettings,
+        rollTables,
+        rollSettings,
+        stamps,
+        stampIcons,
+    }), [projectImage, pixelsPerMile, hexMiles, subHexMiles, gridStyle, subGridStyle, shouldDrawCoordinates, shouldDrawLegend, gridLayout, labelStyle, coverage, regions, hexData, terrainPalette, revealedHexes, party, travelSettings, rollTables, rollSettings, stamps, stampIcons]);
+
+    // `image` stands in for the project's own image, for autosaves that keep it apart
+    const applyProject = async (project: Project, image: File | null = null) => {
+        const file = image ?? await projectImageToFile(project.image);
+        setPixelsPerMile(project.settings.pixelsPerMile);
+        setHexMiles(project.settings.hexMiles);
+        setSubHexMiles(project.settings.subHexMiles);
+        setGridStyle(project.settings.gridStyle);
+        setSubGridStyle(project.settings.subGridStyle);
+        setSubMapKey(null);
+        setShouldDrawCoordinates(project.settings.shouldDrawCoordinates);
+        setShouldDrawLegend(project.settings.shouldDrawLegend);
+        setGridLayout(project.settings.gridLayout);
+        setLabelStyle(project.settings.labelStyle);
+        setCoverage(project.settings.coverage);
+        setRegions(project.regions);
+        setSelectedRegionId(null);
+        setVertices([]);
+        setEditHistory(EMPTY_HISTORY);
+        setHexData(project.hexData);
+        setTerrainPalette(project.terrainPalette);
+        setRevealedHexes(project.revealedHexes);
+        setParty(project.party);
+        setTravelSettings(project.travelSettings);
+        setRollTables(project.rollTables);
+        setRollSettings(project.rollSettings);
+        setStamps(project.stamps);
+        setStampIcons(project.stampIcons);
+        setSelectedStampId(null);
+        setInspectedKey(null);
+        if (file) {
+            setImageFile(file);
+        } else if (project.image) {
+            window.alert(`This project references "${project.image.name}" without embedding it. Upload that image to continue.`);
+        }
+    };
+
+    const handleSaveProject = () => {
+        const blob = new Blob([JSON.stringify(buildProject(shouldEmbedImage))], { type: 'application/json' });
+        downloadBlob(blob, 'hex-project.json');
+    };
+
+    // Start over from the defaults and drop the autosave, which would otherwise come back on every load
+    const handleNewProject = async () => {
+        if (!window.confirm('Start a new project? Unsaved changes and the autosaved session are discarded.')) return;
+        await applyProject(parseProject({ version: PROJECT_VERSION }));
+        setImageFile(null);
+        setMapImage(null);
+        setProjectImage(null);
+        setGrid(null);
+        setSubGrid(null);
+        setCalibrationPoints([]);
+        setMeasureKeys([]);
+        try {
+            await clearAutosave();
+        } catch (err) {
+            console.error('Autosave clear failed', err);
+        }
+    };
+
+    const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            await applyProject(parseProject(JSON.parse(await file.text())));
+        } catch (err) {
+            console.error('Project load failed', err);
+            window.alert(`Could not open project: ${err instanceof Error ? err.message : err}`);
+        }
+    };
+
+    // keep an embeddable copy of the current image for project saves
+    useEffect(() => {
+        if (!imageFile) return;
+        projectImageFromFile(imageFile, true).then(setProjectImage).catch(err => console.error('Image read failed', err));
+    }, [imageFile]);
+
+    // Restore the last session once on startup
+    useEffect(() => {
+        loadAutosave()
+            .then(async saved => saved ? applyProject(parseProject(saved), await loadAutosaveImage() ?? null) : undefined)
+            .catch(err => console.error('Autosave restore failed', err))
+            .finally(() => setHasLoadedAutosave(true));
+    }, []);
+
+    // Autosave the image once per image, apart from the project; waits for the restore so it can't clobber it
+    useEffect(() => {
+        if (!hasLoadedAutosave || !imageFile) return;
+        saveAutosaveImage(imageFile).catch(err => console.error('Autosave failed', err));
+    }, [hasLoadedAutosave, imageFile]);
+
+    // Write the rest of the autosave after a pause in editing, referencing the image by name
+    useEffect(() => {
+        if (!hasLoadedAutosave || !projectImage) return;
+        const timeout = setTimeout(() => {
+            saveAutosave(buildProject(false)).catch(err => console.error('Autosave failed', err));
+        }, AUTOSAVE_DELAY);
+        return () => clearTimeout(timeout);
+    }, [hasLoadedAutosave, projectImage, buildProject]);
+
+    const handleExportSvg = () => {
+        if (!grid) return;
+        const svg = buildSvg({
+            grid,
+            gridStyle,
+            subGrid,
+            subGridStyle,
+            imageDataUrl: shouldExportSvgImage ? projectImage?.dataUrl ?? null : null,
+            imageOffset: MAP_PADDING,
+            hexData: resolvedHexData,
+            terrainPalette,
+            labelStyle: shouldDrawCoordinates ? labelStyle : null,
+            isLabeled: regionLabelFilter(regions),
+            regions,
+            shouldClip: coverage.shouldClip,
+            stamps,
+            stampIcons,
+        });
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'hexed-image.svg');
+    };
+
+    const handleExportHexes = (format: 'json' | 'csv') => {
+        if (!grid) return;
+        const hexes = collectHexes(grid, resolvedHexData, labelStyle, MAP_PADDING);
+        if (format === 'csv') {
+            downloadBlob(new Blob([hexesToCsv(hexes)], { type: 'text/csv' }), 'hexes.csv');
+        } else {
+            downloadBlob(new Blob([JSON.stringify(hexes, null, 2)], { type: 'application/json' }), 'hexes.json');
+        }
+    };
+
+    const handleExportFoundry = () => {
+        if (!grid) return;
+        const scene = foundrySceneConfig(grid, hexMiles, gridStyle, imageFile?.name ?? 'map.png', MAP_PADDING);
+        if (scene.warnings.length > 0) window.alert(scene.warnings.join('\n'));
+        downloadBlob(new Blob([JSON.stringify(scene, null, 2)], { type: 'application/json' }), 'foundry-scene.json');
+    };
 
     // Paste from clipboard
     const handlePaste = async () => {
@@ -444,6 +1182,27 @@ function App() {
                 <h1 style={{ margin: 0}}>Overlay {Hex} Tool</h1>
             </div>
 
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center', marginBottom: 10 }}>
+                <button onClick={handleNewProject} title="Clear the map and everything on it, including the autosaved session">
+                    <FaFile/> New Project
+                </button>
+                <label title="Open a saved project file" style={{ cursor: 'pointer' }}>
+                    <FaFolderOpen/> Open Project{' '}
+                    <input type="file" accept="application/json,.json" onChange={handleOpenProject}/>
+                </label>
+                <button onClick={handleSaveProject} disabled={!imageFile} title="Download this project as a file">
+                    <FaSave/> Save Project
+                </button>
+                <label title="Without the image, the project file only references it by name">
+                    <input
+                        type="checkbox"
+                        checked={shouldEmbedImage}
+                        onChange={e => setShouldEmbedImage(e.target.checked)}
+                    />
+                    Embed image
+                </label>
+            </div>
+
             <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center' }}>
                 <input style={{ display: imageFile ? 'inherit' : 'none'}} type="file" accept="image/*" onChange={handleFileChange}/>
                 <div style={{ display: imageFile ? 'inherit' : 'none'}}>
@@ -467,28 +1226,118 @@ function App() {
                     </label>
                 </div>
                 <div style={{ display: imageFile ? 'inherit' : 'none'}}>
+                    <label title="A finer grid drawn inside each hex; open a hex as a sub-map from the Inspect panel">
+                        Sub-hexes:{' '}
+                        <select value={subHexMiles} onChange={e => setSubHexMiles(parseFloat(e.target.value))}>
+                            <option value={0}>none</option>
+                            {SUB_HEX_MILES.filter(miles => miles < hexMiles || miles === subHexMiles).map(miles => (
+                                <option key={miles} value={miles}>{miles} miles</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+                <div style={{ display: imageFile ? 'inherit' : 'none'}}>
+                    <label>
+                        Orientation:{' '}
+                        <select
+                            value={gridLayout.orientation}
+                            onChange={e => setGridLayout({ ...gridLayout, orientation: e.target.value as HexOrientation })}
+                        >
+                            <option value="flat">Flat-topped</option>
+                            <option value="pointy">Pointy-topped</option>
+                        </select>
+                    </label>
+                </div>
+                <div style={{ display: imageFile ? 'inherit' : 'none'}}>
+                    <label>
+                        Grid offset (px):{' '}
+                        <input
+                            type="number"
+                            style={{ width: 70 }}
+                            value={gridLayout.offset.x}
+                            onChange={e => setGridLayout({ ...gridLayout, offset: { ...gridLayout.offset, x: parseFloat(e.target.value) || 0 } })}
+                        />
+                        <input
+                            type="number"
+                            style={{ width: 70 }}
+                            value={gridLayout.offset.y}
+                            onChange={e => setGridLayout({ ...gridLayout, offset: { ...gridLayout.offset, y: parseFloat(e.target.value) || 0 } })}
+                        />
+                    </label>
+                </div>
+                <div style={{ display: imageFile ? 'inherit' : 'none'}}>
+                    <label>
+                        Rotation (°):{' '}
+                        <input
+                            type="number"
+                            style={{ width: 70 }}
+                            value={gridLayout.rotation}
+                            onChange={e => setGridLayout({ ...gridLayout, rotation: parseFloat(e.target.value) || 0 })}
+                        />
+                    </label>
+                </div>
+                <div style={{ display: imageFile ? 'inherit' : 'none'}}>
+                    <label title="How much of a hex must lie outside hidden regions for it to be drawn">
+                        Partly hidden hexes:{' '}
+                        <select value={coverage.rule} onChange={e => setCoverage({ ...coverage, rule: e.target.value as CoverageRule })}>
+                            <option value="all-corners">drawn if all corners shown</option>
+                            <option value="any-corner">drawn if any corner shown</option>
+                            <option value="center">drawn if center shown</option>
+                            <option value="area">drawn by shown area</option>
+                        </select>
+                    </label>
+                    {coverage.rule === 'area' && (
+                        <label>
+                            {' '}≥{' '}
+                            <input
+                                type="number"
+                                min={1}
+                                max={100}
+                                style={{ width: 50 }}
+                                value={coverage.threshold}
+                                onChange={e => setCoverage({ ...coverage, threshold: parseFloat(e.target.value) || 0 })}
+                            />
+                            %
+                        </label>
+                    )}
                     <label>
-                        Outline color:{' '}
                         <input
-                            type="text"
-                            value={outlineColor}
-                            onChange={e => setOutlineColor(e.target.value)}
+                            type="checkbox"
+                            checked={coverage.shouldClip}
+                            onChange={e => setCoverage({ ...coverage, shouldClip: e.target.checked })}
                         />
+                        Clip to regions
                     </label>
                 </div>
-                <div style={{ display: imageFile ? 'inherit' : 'none'}} className="hoverWarning" title={`This feature isn't finished.\nIt doesn't work with the ${Poly} tool.`}>
+                {imageFile && (
+                    <GridStyleSettings title="Grid lines" style={gridStyle} onChange={setGridStyle}/>
+                )}
+                {imageFile && subHexMiles > 0 && (
+                    <GridStyleSettings title="Sub-hex lines" style={subGridStyle} onChange={setSubGridStyle}/>
+                )}
+                <div style={{ display: imageFile ? 'inherit' : 'none'}}>
                     <label>
                         <input
                             type="checkbox"
                             checked={shouldDrawCoordinates}
                             onChange={e => setShouldDrawCoordinates(e.target.checked)}
                         />
-                        🚧 Show Coordinates (<i>WIP</i>)
+                        Show Coordinates
+                    </label>
+                </div>
+                {imageFile && shouldDrawCoordinates && (
+                    <LabelSettings style={labelStyle} onChange={setLabelStyle}/>
+                )}
+                <div style={{ display: imageFile ? 'inherit' : 'none'}}>
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={shouldDrawLegend}
+                            onChange={e => setShouldDrawLegend(e.target.checked)}
+                        />
+                        Include Legend
                     </label>
                 </div>
-                <button style={{ display: imageFile ? 'inherit' : 'none'}} onClick={() => { handleGenerate(); }} disabled={(vertices.length > 0) || !imageFile}>
-                    Generate {Hex}s
-                </button>
                 {vertices.length > 0 && (
                     <button onClick={() => { finalize(); }}>
                         Finalize {Poly}
@@ -499,8 +1348,8 @@ function App() {
             {/* Toolbar */}
             <div style={{ alignItems: 'center', marginBottom: 10, display: imageFile ? 'flex' : 'none'}}>
                 <button
-                    disabled={polygons.length === 0}
-                    title={`Invert ${Poly}`}
+                    disabled={regions.length === 0}
+                    title="Regions"
                     onClick={() => changeTool(Tool.Select)}
                     style={{
                         background: tool === Tool.Select ? '#ddd' : 'transparent',
@@ -509,7 +1358,7 @@ function App() {
                         cursor: 'pointer',
                     }}
                 >
-                    <FaMousePointer/>
+                    <FaLayerGroup/>
                 </button>
                 <button
                     title={`Create ${Poly}`}
@@ -536,25 +1385,359 @@ function App() {
                 >
                     <FaTrash/>
                 </button>
+                <button
+                    disabled={polygons.length === 0}
+                    title={`Edit ${Poly}s: drag a vertex or a whole polygon, drag an edge to add a vertex, right-click a vertex to remove it`}
+                    onClick={() => changeTool(Tool.Edit)}
+                    style={{
+                        background: tool === Tool.Edit ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaVectorSquare/>
+                </button>
+                <button
+                    title="Magic wand: mask an area of similar color with one click"
+                    onClick={() => changeTool(Tool.Wand)}
+                    style={{
+                        background: tool === Tool.Wand ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaMagic/>
+                </button>
+                <button
+                    disabled={editHistory.past.length === 0}
+                    title="Undo (Ctrl+Z)"
+                    onClick={undo}
+                    style={{ background: 'transparent', border: 'none', padding: '8px', cursor: 'pointer' }}
+                >
+                    <FaUndo/>
+                </button>
+                <button
+                    disabled={editHistory.future.length === 0}
+                    title="Redo (Ctrl+Shift+Z)"
+                    onClick={redo}
+                    style={{ background: 'transparent', border: 'none', padding: '8px', cursor: 'pointer' }}
+                >
+                    <FaRedo/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title={`Inspect ${Hex}`}
+                    onClick={() => changeTool(Tool.Inspect)}
+                    style={{
+                        background: tool === Tool.Inspect ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaSearch/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Paint Terrain"
+                    onClick={() => changeTool(Tool.Paint)}
+                    style={{
+                        background: tool === Tool.Paint ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaPaintBrush/>
+                </button>
+                <button
+                    title="Calibrate Scale"
+                    onClick={() => changeTool(Tool.Calibrate)}
+                    style={{
+                        background: tool === Tool.Calibrate ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaRulerHorizontal/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Drag Grid Origin"
+                    onClick={() => changeTool(Tool.MoveGrid)}
+                    style={{
+                        background: tool === Tool.MoveGrid ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaArrowsAlt/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Reveal Hexes (Fog of War)"
+                    onClick={() => changeTool(Tool.Reveal)}
+                    style={{
+                        background: tool === Tool.Reveal ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaEye/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Party Travel"
+                    onClick={() => changeTool(Tool.Party)}
+                    style={{
+                        background: tool === Tool.Party ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaFlag/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Measure Distance & Route"
+                    onClick={() => changeTool(Tool.Measure)}
+                    style={{
+                        background: tool === Tool.Measure ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaRoute/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Roll Tables"
+                    onClick={() => changeTool(Tool.Roll)}
+                    style={{
+                        background: tool === Tool.Roll ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaDiceD20/>
+                </button>
+                <button
+                    disabled={!grid}
+                    title="Stamp Icons"
+                    onClick={() => changeTool(Tool.Stamp)}
+                    style={{
+                        background: tool === Tool.Stamp ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaMapMarkerAlt/>
+                </button>
+                <button
+                    title="Pan: drag the map (the middle mouse button pans with any tool, the wheel zooms)"
+                    onClick={() => changeTool(Tool.Pan)}
+                    style={{
+                        background: tool === Tool.Pan ? '#ddd' : 'transparent',
+                        border: 'none',
+                        padding: '8px',
+                        cursor: 'pointer',
+                    }}
+                >
+                    <FaHandPaper/>
+                </button>
+                <button
+                    title="Zoom out"
+                    onClick={() => zoomBy(1 / ZOOM_STEP)}
+                    style={{ background: 'transparent', border: 'none', padding: '8px', cursor: 'pointer' }}
+                >
+                    <FaSearchMinus/>
+                </button>
+                <span style={{ minWidth: 48, textAlign: 'center' }}>{Math.round(view.zoom * 100)}%</span>
+                <button
+                    title="Zoom in"
+                    onClick={() => zoomBy(ZOOM_STEP)}
+                    style={{ background: 'transparent', border: 'none', padding: '8px', cursor: 'pointer' }}
+                >
+                    <FaSearchPlus/>
+                </button>
+                <button
+                    disabled={!mapImage}
+                    title="Fit the whole map in view"
+                    onClick={() => mapImage && setView(fitViewport(mapImage, viewSize))}
+                    style={{ background: 'transparent', border: 'none', padding: '8px', cursor: 'pointer' }}
+                >
+                    <FaExpand/>
+                </button>
             </div>
 
+            {subMapCell && subMapKey && (
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: 10 }}>
+                    <button onClick={closeSubMap} title="Back to the whole map">
+                        <FaArrowLeft/> Full map
+                    </button>
+                    <strong>Sub-map of hex {hexLabelFor(subMapKey)}</strong>
+                    <span>{subMapCells.length} {subHexMiles}-mile hexes</span>
+                    <button onClick={handleDownloadSubMap} title="PNG of this hex with its sub-hexes numbered">
+                        Download Sub-map
+                    </button>
+                </div>
+            )}
+
             {/* Canvas Container */}
             {imageFile ? (
-                <div style={{ position: 'relative', display: 'inline-block', border: '1px solid #ccc', maxWidth: "100%" }}>
-                    <canvas ref={mapCanvasRef} style={{ display: 'block', maxWidth: "100%" }} />
-                    <canvas
-                        ref={polyCanvasRef}
-                        style={{ position: 'absolute', top: 0, left: 0, cursor: tool === Tool.Draw ? 'crosshair' : 'default', maxWidth: "100%" }}
-                    />
-                    <canvas
-                        ref={selectionCanvasRef}
-                        onClick={handleCanvasClick}
-                        style={{ position: 'absolute', top: 0, left: 0, cursor: tool === Tool.Draw ? 'crosshair' : 'default', maxWidth: "100%" }}
-                    />
-                    {hoverPos && tool===Tool.Draw && (
-                        <div onClick={finalize} title="Complete polygon" style={{position:'absolute',left:hoverPos.left,top:hoverPos.top,background:'#000',border:'1px solid #ccc',borderRadius:4,padding:4,cursor:'pointer',zIndex:10}}>
-                            <FaCheck />
-                        </div>
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }}>
+                    <div ref={viewportRef} style={{ position: 'relative', flex: 1, minWidth: 0, height: '75vh', overflow: 'hidden', border: '1px solid #ccc' }}>
+                        <canvas ref={mapCanvasRef} width={viewSize.width} height={viewSize.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+                        <canvas ref={terrainCanvasRef} width={viewSize.width} height={viewSize.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+                        <canvas ref={gridCanvasRef} width={viewSize.width} height={viewSize.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+                        <canvas ref={stampCanvasRef} width={viewSize.width} height={viewSize.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+                        <canvas ref={subMapCanvasRef} width={viewSize.width} height={viewSize.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+                        <canvas ref={partyCanvasRef} width={viewSize.width} height={viewSize.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+                        <canvas
+                            ref={polyCanvasRef}
+                            width={viewSize.width}
+                            height={viewSize.height}
+                            style={{ position: 'absolute', top: 0, left: 0, cursor: tool === Tool.Draw ? 'crosshair' : 'default' }}
+                        />
+                        <canvas
+                            ref={selectionCanvasRef}
+                            width={viewSize.width}
+                            height={viewSize.height}
+                            onClick={handleCanvasClick}
+                            onMouseDown={handleCanvasMouseDown}
+                            onMouseMove={handleCanvasMouseMove}
+                            onMouseUp={handleCanvasMouseUp}
+                            onMouseLeave={handleCanvasMouseUp}
+                            onContextMenu={handleCanvasContextMenu}
+                            style={{ position: 'absolute', top: 0, left: 0, cursor: tool === Tool.MoveGrid || tool === Tool.Edit ? 'move' : tool === Tool.Draw || tool === Tool.Inspect || tool === Tool.Paint || tool === Tool.Calibrate || tool === Tool.Reveal || tool === Tool.Party || tool === Tool.Measure || tool === Tool.Roll || tool === Tool.Wand || tool === Tool.Stamp ? 'crosshair' : tool === Tool.Pan ? 'grab' : 'default' }}
+                        />
+                        {hoverPos && tool===Tool.Draw && (
+                            <div onClick={finalize} title="Complete polygon" style={{position:'absolute',left:hoverPos.left,top:hoverPos.top,background:'#000',border:'1px solid #ccc',borderRadius:4,padding:4,cursor:'pointer',zIndex:10}}>
+                                <FaCheck />
+                            </div>
+                        )}
+                        {mapImage && (
+                            <Minimap image={mapImage} view={view} viewSize={viewSize} onNavigate={point => setView(prev => centerOn(prev, point, viewSize))}/>
+                        )}
+                    </div>
+                    {tool === Tool.Inspect && grid && inspectedCell && inspectedKey && (
+                        <HexInspector
+                            key={inspectedKey}
+                            cell={inspectedCell}
+                            label={formatHexLabel(grid, inspectedCell, findLabelOrigin(grid, labelStyle.origin, MAP_PADDING) ?? inspectedCell, labelStyle)}
+                            data={hexData[inspectedKey]}
+                            terrains={terrainPalette}
+                            subHexes={subGrid ? { count: subGrid.children.get(inspectedKey)?.length ?? 0, miles: subHexMiles } : null}
+                            onOpenSubMap={() => openSubMap(inspectedKey)}
+                            onChange={data => setHexData(prev => updateHexData(prev, inspectedKey, data))}
+                            onClose={() => setInspectedKey(null)}
+                        />
+                    )}
+                    {tool === Tool.Paint && (
+                        <TerrainPalette
+                            palette={terrainPalette}
+                            brush={brush}
+                            onBrushChange={setBrush}
+                            onPaletteChange={setTerrainPalette}
+                        />
+                    )}
+                    {tool === Tool.Reveal && (
+                        <FogPanel
+                            revealedCount={revealedHexes.length}
+                            onOpenPlayerWindow={openPlayerWindow}
+                            onDownloadPlayerView={handleDownloadPlayerView}
+                            onHideAll={() => setRevealedHexes([])}
+                        />
+                    )}
+                    {tool === Tool.Party && (
+                        <TravelPanel
+                            party={party}
+                            settings={travelSettings}
+                            labelFor={hexLabelFor}
+                            onSettingsChange={setTravelSettings}
+                            onCamp={() => party.position && setParty(partyFromLog([...party.log, campEntry(party.log, party.position)]))}
+                            onUndo={() => setParty(partyFromLog(party.log.slice(0, -1)))}
+                            onClear={() => setParty(EMPTY_PARTY)}
+                        />
+                    )}
+                    {tool === Tool.Measure && (
+                        <MeasurePanel
+                            startLabel={measureKeys.length > 0 ? hexLabelFor(measureKeys[0]) : null}
+                            endLabel={measureKeys.length > 1 ? hexLabelFor(measureKeys[1]) : null}
+                            distance={measureCells.length === 2 ? hexDistance(measureCells[0], measureCells[1]) : null}
+                            hexMiles={hexMiles}
+                            path={measurePath}
+                            useTerrainCost={shouldUseTerrainCost}
+                            avoidMasked={shouldAvoidMasked}
+                            onUseTerrainCostChange={setShouldUseTerrainCost}
+                            onAvoidMaskedChange={setShouldAvoidMasked}
+                            onReset={() => setMeasureKeys([])}
+                        />
+                    )}
+                    {tool === Tool.Wand && (
+                        <MagicWandPanel options={wandOptions} lastResult={lastWandResult} onChange={setWandOptions}/>
+                    )}
+                    {tool === Tool.Select && (
+                        <RegionPanel
+                            regions={regions}
+                            selectedId={selectedRegionId}
+                            terrains={terrainPalette}
+                            onSelect={id => {
+                                recordEdit();
+                                setSelectedRegionId(id);
+                            }}
+                            onChange={updateRegions}
+                        />
+                    )}
+                    {tool === Tool.Roll && (
+                        <RollTablesPanel
+                            tables={rollTables}
+                            settings={rollSettings}
+                            terrains={terrainPalette}
+                            regions={regions}
+                            populateScope={`${selectedPolygons ? 'the selected region' : 'the whole map'} (${populateCells.length} hexes)`}
+                            lastResults={lastRolls}
+                            onTablesChange={setRollTables}
+                            onSettingsChange={setRollSettings}
+                            onPopulate={handlePopulate}
+                        />
+                    )}
+                    {tool === Tool.Stamp && (
+                        <StampPanel
+                            options={stampOptions}
+                            icons={stampIcons}
+                            selected={selectedStamp}
+                            stampCount={stamps.length}
+                            onOptionsChange={setStampOptions}
+                            onUploadIcon={handleUploadStampIcon}
+                            onRemoveIcon={removeStampIcon}
+                            onSelectedChange={stamp => setStamps(prev => prev.map(s => s.id === stamp.id ? stamp : s))}
+                            onDeleteSelected={() => {
+                                setStamps(prev => prev.filter(stamp => stamp.id !== selectedStampId));
+                                setSelectedStampId(null);
+                            }}
+                        />
+                    )}
+                    {tool === Tool.Calibrate && (
+                        <CalibrationPanel
+                            pointCount={calibrationPoints.length}
+                            distance={calibrationDistance}
+                            unit={calibrationUnit}
+                            computedPpm={calibratedPpm}
+                            onDistanceChange={setCalibrationDistance}
+                            onUnitChange={setCalibrationUnit}
+                            onApply={applyCalibration}
+                            onReset={() => setCalibrationPoints([])}
+                        />
                     )}
                 </div>
             ) : (
@@ -570,11 +1753,42 @@ function App() {
                 </div>
             )}
 
-            {downloadUrl && (
-                <div style={{marginTop: 20}}>
-                    <a href={downloadUrl} download="hexed-image.png">
+            {grid && (
+                <div style={{marginTop: 20, display: 'flex', gap: '1rem', alignItems: 'center'}}>
+                    <button onClick={handleDownloadImage} title="Full-resolution PNG of the map with terrain, grid and stamps">
                         Download Image
-                    </a>
+                    </button>
+                    <button onClick={handleExportSvg} disabled={!grid}>
+                        Download SVG
+                    </button>
+                    <label title="Leave the map out to get only the vector grid, fills and labels">
+                        <input
+                            type="checkbox"
+                            checked={shouldExportSvgImage}
+                            onChange={e => setShouldExportSvgImage(e.target.checked)}
+                        />
+                        Include map image in SVG
+                    </label>
+                    <button onClick={() => handleExportHexes('json')} disabled={!grid}>
+                        Hex Data JSON
+                    </button>
+                    <button onClick={() => handleExportHexes('csv')} disabled={!grid}>
+                        Hex Data CSV
+                    </button>
+                    <button onClick={handleExportFoundry} disabled={!grid} title="Scene grid settings for Foundry VTT">
+                        Foundry VTT Scene
+                    </button>
+                </div>
+            )}
+            {grid && (
+                <div style={{marginTop: 10}}>
+                    <PrintSettings
+                        options={printOptions}
+                        layout={printLayout}
+                        isExporting={isExportingPdf}
+                        onChange={setPrintOptions}
+                        onExport={handleExportPdf}
+                    />
                 </div>
             )}
         </div>
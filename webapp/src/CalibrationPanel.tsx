@@ -0,0 +1,47 @@
+import type {DistanceUnit} from './calibration.ts';
+
+interface CalibrationPanelProps {
+    pointCount: number;
+    distance: number;
+    unit: DistanceUnit;
+    computedPpm: number | null;
+    onDistanceChange: (distance: number) => void;
+    onUnitChange: (unit: DistanceUnit) => void;
+    onApply: () => void;
+    onReset: () => void;
+}
+
+// Side panel for the Calibrate tool
+function CalibrationPanel({ pointCount, distance, unit, computedPpm, onDistanceChange, onUnitChange, onApply, onReset }: CalibrationPanelProps) {
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Calibrate scale</strong>
+            <small>
+                {pointCount < 2
+                    ? `Click the ${pointCount === 0 ? 'start' : 'end'} of the map's scale bar.`
+                    : 'Enter the distance the scale bar represents.'}
+            </small>
+            <label>
+                Distance:{' '}
+                <input
+                    type="number"
+                    min={0}
+                    style={{ width: 80 }}
+                    value={distance}
+                    onChange={e => onDistanceChange(parseFloat(e.target.value))}
+                />
+                <select value={unit} onChange={e => onUnitChange(e.target.value as DistanceUnit)}>
+                    <option value="mi">miles</option>
+                    <option value="km">km</option>
+                </select>
+            </label>
+            <div>Pixels per mile: {computedPpm ? computedPpm.toFixed(2) : '—'}</div>
+            <div style={{ display: 'flex', gap: 8 }}>
+                <button disabled={!computedPpm} onClick={onApply}>Apply &amp; Regenerate</button>
+                <button disabled={pointCount === 0} onClick={onReset}>Reset</button>
+            </div>
+        </div>
+    );
+}
+
+export default CalibrationPanel;
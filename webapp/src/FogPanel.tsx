@@ -0,0 +1,22 @@
+interface FogPanelProps {
+    revealedCount: number;
+    onOpenPlayerWindow: () => void;
+    onDownloadPlayerView: () => void;
+    onHideAll: () => void;
+}
+
+// Side panel for the Reveal tool
+function FogPanel({ revealedCount, onOpenPlayerWindow, onDownloadPlayerView, onHideAll }: FogPanelProps) {
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Fog of war</strong>
+            <small>Click hexes to reveal or hide them for the players. Darkened hexes are still hidden.</small>
+            <div>{revealedCount} hexes revealed</div>
+            <button onClick={onOpenPlayerWindow}>Open Player View</button>
+            <button onClick={onDownloadPlayerView}>Download Player Image</button>
+            <button disabled={revealedCount === 0} onClick={onHideAll}>Hide All</button>
+        </div>
+    );
+}
+
+export default FogPanel;
@@ -0,0 +1,71 @@
+import type {GridLineStyle, LinePattern} from './gridStyle.ts';
+
+interface GridStyleSettingsProps {
+    // e.g. "Grid lines" or "Sub-hex lines"
+    title: string;
+    style: GridLineStyle;
+    onChange: (style: GridLineStyle) => void;
+}
+
+// Inline controls for how one scale of grid lines is drawn
+function GridStyleSettings({ title, style, onChange }: GridStyleSettingsProps) {
+    return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+            <strong>{title}:</strong>
+            <label>
+                Color:{' '}
+                <input type="color" value={style.color} onChange={e => onChange({ ...style, color: e.target.value })}/>
+            </label>
+            <label>
+                Opacity:{' '}
+                <input
+                    type="range"
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={Math.round(style.opacity * 100)}
+                    onChange={e => onChange({ ...style, opacity: parseInt(e.target.value) / 100 })}
+                />
+                {' '}{Math.round(style.opacity * 100)}%
+            </label>
+            <label title="Line width as a percentage of the hex radius, so lines keep their weight on upscaled maps">
+                Width:{' '}
+                <input
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    style={{ width: 60 }}
+                    value={style.width}
+                    onChange={e => onChange({ ...style, width: Math.max(0.1, parseFloat(e.target.value) || style.width) })}
+                />
+                {' '}% of hex
+            </label>
+            <label>
+                Pattern:{' '}
+                <select value={style.pattern} onChange={e => onChange({ ...style, pattern: e.target.value as LinePattern })}>
+                    <option value="solid">Solid</option>
+                    <option value="dashed">Dashed</option>
+                    <option value="dotted">Dotted</option>
+                </select>
+            </label>
+            <label title="A wider line in black or white beneath, so the grid shows over light and dark terrain">
+                <input
+                    type="checkbox"
+                    checked={style.underStroke}
+                    onChange={e => onChange({ ...style, underStroke: e.target.checked })}
+                />
+                Contrast outline
+            </label>
+            <label>
+                <input
+                    type="checkbox"
+                    checked={style.centerDots}
+                    onChange={e => onChange({ ...style, centerDots: e.target.checked })}
+                />
+                Center dots
+            </label>
+        </div>
+    );
+}
+
+export default GridStyleSettings;
@@ -0,0 +1,75 @@
+import {useState} from 'react';
+import {FaTimes} from 'react-icons/fa';
+import {EMPTY_HEX_DATA, parseTags, type HexData} from './hexData.ts';
+import type {HexCell} from './hexGrid.ts';
+import type {TerrainType} from './terrain.ts';
+
+interface HexInspectorProps {
+    cell: HexCell;
+    label: string;
+    data: HexData | undefined;
+    terrains: TerrainType[];
+    // the nested sub-hexes inside this hex, when a sub-hex size is set
+    subHexes: { count: number; miles: number } | null;
+    onOpenSubMap: () => void;
+    onChange: (data: HexData) => void;
+    onClose: () => void;
+}
+
+// Side panel for the hex picked with the Inspect tool
+function HexInspector({ cell, label, data = EMPTY_HEX_DATA, terrains, subHexes, onOpenSubMap, onChange, onClose }: HexInspectorProps) {
+    // tags are edited as free text so typing a trailing comma isn't swallowed
+    const [tagText, setTagText] = useState<string>(data.tags.join(', '));
+
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <strong>Hex {label}</strong>
+                <button title="Close" onClick={onClose} style={{ padding: 4 }}>
+                    <FaTimes/>
+                </button>
+            </div>
+            <small>Offset {cell.col},{cell.row} · Axial {cell.q},{cell.r} · Cube {cell.q},{cell.r},{cell.s}</small>
+            {subHexes && (
+                <div>
+                    Contains {subHexes.count} {subHexes.miles}-mile hexes{' '}
+                    <button onClick={onOpenSubMap} disabled={subHexes.count === 0}>Open sub-map</button>
+                </div>
+            )}
+            <label>
+                Terrain:{' '}
+                <select value={data.terrain} onChange={e => onChange({ ...data, terrain: e.target.value })}>
+                    <option value="">(none)</option>
+                    {terrains.map(terrain => <option key={terrain.name} value={terrain.name}>{terrain.name}</option>)}
+                </select>
+            </label>
+            <label>
+                Name:{' '}
+                <input type="text" value={data.name} onChange={e => onChange({ ...data, name: e.target.value })}/>
+            </label>
+            <label>
+                GM notes:
+                <textarea
+                    rows={6}
+                    style={{ width: '100%', boxSizing: 'border-box' }}
+                    value={data.notes}
+                    onChange={e => onChange({ ...data, notes: e.target.value })}
+                />
+            </label>
+            <label>
+                Tags:{' '}
+                <input
+                    type="text"
+                    placeholder="lair, ruin"
+                    value={tagText}
+                    onChange={e => {
+                        setTagText(e.target.value);
+                        onChange({ ...data, tags: parseTags(e.target.value) });
+                    }}
+                />
+            </label>
+        </div>
+    );
+}
+
+export default HexInspector;
@@ -0,0 +1,74 @@
+import type {LabelOrigin, LabelPosition, LabelScheme, LabelStyle} from './labels.ts';
+
+interface LabelSettingsProps {
+    style: LabelStyle;
+    onChange: (style: LabelStyle) => void;
+}
+
+// Inline controls for how coordinate labels are numbered and drawn
+function LabelSettings({ style, onChange }: LabelSettingsProps) {
+    return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+            <label>
+                Scheme:{' '}
+                <select value={style.scheme} onChange={e => onChange({ ...style, scheme: e.target.value as LabelScheme })}>
+                    <option value="offset">Offset (col,row)</option>
+                    <option value="classic">Classic (0304)</option>
+                    <option value="axial">Axial (q,r)</option>
+                    <option value="cube">Cube (q,r,s)</option>
+                    <option value="letter-number">Letter-number (C4)</option>
+                </select>
+            </label>
+            <label>
+                Origin:{' '}
+                <select value={style.origin} onChange={e => onChange({ ...style, origin: e.target.value as LabelOrigin })}>
+                    <option value="corner">Top-left corner</option>
+                    <option value="center">Center</option>
+                </select>
+            </label>
+            <label>
+                Position:{' '}
+                <select value={style.position} onChange={e => onChange({ ...style, position: e.target.value as LabelPosition })}>
+                    <option value="top">Top</option>
+                    <option value="center">Center</option>
+                    <option value="bottom">Bottom</option>
+                </select>
+            </label>
+            <label>
+                Font:{' '}
+                <select value={style.fontFamily} onChange={e => onChange({ ...style, fontFamily: e.target.value })}>
+                    <option value="sans-serif">Sans-serif</option>
+                    <option value="serif">Serif</option>
+                    <option value="monospace">Monospace</option>
+                </select>
+            </label>
+            <label>
+                Size:{' '}
+                <input
+                    type="number"
+                    min={4}
+                    style={{ width: 60 }}
+                    value={style.fontSize}
+                    onChange={e => onChange({ ...style, fontSize: parseFloat(e.target.value) || style.fontSize })}
+                />
+            </label>
+            <label>
+                Color:{' '}
+                <input type="color" value={style.color} onChange={e => onChange({ ...style, color: e.target.value })}/>
+            </label>
+            <label>
+                Halo:{' '}
+                <input
+                    type="number"
+                    min={0}
+                    style={{ width: 50 }}
+                    value={style.haloWidth}
+                    onChange={e => onChange({ ...style, haloWidth: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                <input type="color" value={style.haloColor} onChange={e => onChange({ ...style, haloColor: e.target.value })}/>
+            </label>
+        </div>
+    );
+}
+
+export default LabelSettings;
@@ -0,0 +1,56 @@
+import type {WandOptions} from './magicWand.ts';
+
+interface MagicWandPanelProps {
+    options: WandOptions;
+    // summary of the last click, e.g. "Masked area 2 with 3 islands"
+    lastResult: string | null;
+    onChange: (options: WandOptions) => void;
+}
+
+// Side panel for the Magic wand tool
+function MagicWandPanel({ options, lastResult, onChange }: MagicWandPanelProps) {
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Magic wand</strong>
+            <small>Click an area of similar color, like the sea or a blank margin, to mask it. Enclosed areas such as islands become regions that show the grid again.</small>
+            <label>
+                Tolerance:{' '}
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={options.tolerance}
+                    onChange={e => onChange({ ...options, tolerance: parseInt(e.target.value) })}
+                />
+                {' '}{options.tolerance}%
+            </label>
+            <label>
+                Smoothing:{' '}
+                <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    style={{ width: 60 }}
+                    value={options.smoothing}
+                    onChange={e => onChange({ ...options, smoothing: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                {' '}px
+            </label>
+            <label>
+                Ignore islands under:{' '}
+                <input
+                    type="number"
+                    min={0}
+                    step={100}
+                    style={{ width: 70 }}
+                    value={options.minHoleArea}
+                    onChange={e => onChange({ ...options, minHoleArea: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                {' '}px²
+            </label>
+            {lastResult && <div>{lastResult}</div>}
+        </div>
+    );
+}
+
+export default MagicWandPanel;
@@ -0,0 +1,53 @@
+import type {HexPath} from './pathfinding.ts';
+
+interface MeasurePanelProps {
+    startLabel: string | null;
+    endLabel: string | null;
+    distance: number | null;
+    hexMiles: number;
+    path: HexPath | null;
+    useTerrainCost: boolean;
+    avoidMasked: boolean;
+    onUseTerrainCostChange: (value: boolean) => void;
+    onAvoidMaskedChange: (value: boolean) => void;
+    onReset: () => void;
+}
+
+// Side panel for the Measure tool
+function MeasurePanel({ startLabel, endLabel, distance, hexMiles, path, useTerrainCost, avoidMasked, onUseTerrainCostChange, onAvoidMaskedChange, onReset }: MeasurePanelProps) {
+    const steps = path ? path.cells.length - 1 : 0;
+
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Measure</strong>
+            <small>
+                {!startLabel
+                    ? 'Click the start hex.'
+                    : !endLabel ? 'Click the end hex.' : 'Click again to start a new measurement.'}
+            </small>
+            <div>From: {startLabel ?? '—'} to {endLabel ?? '—'}</div>
+            {distance !== null && (
+                <div>Distance: {distance} hexes ({distance * hexMiles} mi)</div>
+            )}
+            {endLabel && (path ? (
+                <div>
+                    Route: {steps} hexes ({steps * hexMiles} mi)
+                    {useTerrainCost && <div>Travel cost: {(path.cost * hexMiles).toFixed(1)} mi with terrain</div>}
+                </div>
+            ) : (
+                <div style={{ color: 'red' }}>No route between these hexes.</div>
+            ))}
+            <label>
+                <input type="checkbox" checked={useTerrainCost} onChange={e => onUseTerrainCostChange(e.target.checked)}/>
+                Use terrain movement costs
+            </label>
+            <label>
+                <input type="checkbox" checked={avoidMasked} onChange={e => onAvoidMaskedChange(e.target.checked)}/>
+                Avoid masked hexes
+            </label>
+            <button disabled={!startLabel} onClick={onReset}>Reset</button>
+        </div>
+    );
+}
+
+export default MeasurePanel;
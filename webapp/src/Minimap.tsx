@@ -0,0 +1,68 @@
+import React, {useEffect, useRef} from 'react';
+import type {Point} from './hexGrid.ts';
+import {visibleRect, type Size, type Viewport} from './viewport.ts';
+
+interface MinimapProps {
+    // the full-resolution map
+    image: HTMLCanvasElement;
+    view: Viewport;
+    viewSize: Size;
+    // a world point to center the view on
+    onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_SIZE = 180; // pixels along the longer side
+
+// Thumbnail of the whole map with the visible area outlined; click or drag to move the view
+function Minimap({ image, view, viewSize, onNavigate }: MinimapProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const isDraggingRef = useRef<boolean>(false);
+    const scale = MINIMAP_SIZE / Math.max(image.width, image.height);
+    const width = Math.round(image.width * scale), height = Math.round(image.height * scale);
+
+    // downscale once per image, not on every pan
+    const thumbnail = React.useMemo(() => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+        return canvas;
+    }, [image, width, height]);
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(thumbnail, 0, 0);
+        const rect = visibleRect(view, viewSize);
+        ctx.strokeStyle = 'red';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale);
+    }, [thumbnail, view, viewSize, scale, width, height]);
+
+    const navigate = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const bounds = e.currentTarget.getBoundingClientRect();
+        onNavigate({ x: (e.clientX - bounds.left) / scale, y: (e.clientY - bounds.top) / scale });
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={width}
+            height={height}
+            title="Click or drag to move the view"
+            style={{ position: 'absolute', right: 8, bottom: 8, zIndex: 5, border: '1px solid #888', background: '#fff', cursor: 'pointer' }}
+            onMouseDown={e => {
+                isDraggingRef.current = true;
+                navigate(e);
+            }}
+            onMouseMove={e => {
+                if (isDraggingRef.current) navigate(e);
+            }}
+            onMouseUp={() => { isDraggingRef.current = false; }}
+            onMouseLeave={() => { isDraggingRef.current = false; }}
+        />
+    );
+}
+
+export default Minimap;
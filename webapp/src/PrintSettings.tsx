@@ -0,0 +1,56 @@
+import type {PaperSize, PrintLayout, PrintOptions, PrintUnit} from './printExport.ts';
+
+interface PrintSettingsProps {
+    options: PrintOptions;
+    layout: PrintLayout | null;
+    isExporting: boolean;
+    onChange: (options: PrintOptions) => void;
+    onExport: () => void;
+}
+
+// Inline controls for the tiled PDF export
+function PrintSettings({ options, layout, isExporting, onChange, onExport }: PrintSettingsProps) {
+    return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+            <label>
+                Paper:{' '}
+                <select value={options.paper} onChange={e => onChange({ ...options, paper: e.target.value as PaperSize })}>
+                    <option value="letter">Letter</option>
+                    <option value="a4">A4</option>
+                </select>
+            </label>
+            <label>
+                Hex size (across flats):{' '}
+                <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    style={{ width: 60 }}
+                    value={options.hexSize}
+                    onChange={e => onChange({ ...options, hexSize: parseFloat(e.target.value) })}
+                />
+            </label>
+            <label>
+                Overlap:{' '}
+                <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    style={{ width: 60 }}
+                    value={options.overlap}
+                    onChange={e => onChange({ ...options, overlap: parseFloat(e.target.value) || 0 })}
+                />
+            </label>
+            <select value={options.unit} onChange={e => onChange({ ...options, unit: e.target.value as PrintUnit })}>
+                <option value="in">inches</option>
+                <option value="cm">cm</option>
+            </select>
+            <button onClick={onExport} disabled={!layout || isExporting}>
+                {isExporting ? 'Building PDF…' : 'Download Print PDF'}
+            </button>
+            {layout && <small>{layout.rows} × {layout.columns} = {layout.rows * layout.columns} pages</small>}
+        </div>
+    );
+}
+
+export default PrintSettings;
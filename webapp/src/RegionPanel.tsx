@@ -0,0 +1,97 @@
+import {FaArrowDown, FaArrowUp, FaEye, FaEyeSlash, FaTrash} from 'react-icons/fa';
+import {moveRegion, type Region, type RegionRule} from './regions.ts';
+import type {TerrainType} from './terrain.ts';
+
+interface RegionPanelProps {
+    regions: Region[];
+    selectedId: string | null;
+    terrains: TerrainType[];
+    onSelect: (id: string | null) => void;
+    onChange: (regions: Region[]) => void;
+}
+
+function RuleSelect({ value, onChange }: { value: RegionRule; onChange: (rule: RegionRule) => void }) {
+    return (
+        <select value={value} onChange={e => onChange(e.target.value as RegionRule)}>
+            <option value="inherit">as below</option>
+            <option value="hide">hide</option>
+            <option value="show">show</option>
+        </select>
+    );
+}
+
+// Side panel for the Regions tool: the layer stack (top first) and the selected region's rules
+function RegionPanel({ regions, selectedId, terrains, onSelect, onChange }: RegionPanelProps) {
+    const selected = regions.find(region => region.id === selectedId) ?? null;
+    const update = (changes: Partial<Region>) => {
+        if (selected) onChange(regions.map(region => region.id === selected.id ? { ...region, ...changes } : region));
+    };
+
+    return (
+        <div style={{ width: 280, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Regions</strong>
+            <small>Click a region on the map or in the list to select it. Regions higher in the list override those below.</small>
+            {regions.length === 0 && <div>Draw a polygon to create a region.</div>}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 2, maxHeight: 240, overflowY: 'auto' }}>
+                {[...regions].reverse().map(region => (
+                    <div
+                        key={region.id}
+                        style={{ display: 'flex', alignItems: 'center', gap: 4, background: region.id === selectedId ? '#ddd' : 'transparent' }}
+                    >
+                        <button
+                            title={region.visible ? 'Hide region' : 'Show region'}
+                            style={{ padding: 4 }}
+                            onClick={() => onChange(regions.map(r => r.id === region.id ? { ...r, visible: !r.visible } : r))}
+                        >
+                            {region.visible ? <FaEye/> : <FaEyeSlash/>}
+                        </button>
+                        <span
+                            style={{ flex: 1, cursor: 'pointer', color: region.visible ? 'inherit' : '#999' }}
+                            onClick={() => onSelect(region.id === selectedId ? null : region.id)}
+                        >
+                            {region.tint && <span style={{ display: 'inline-block', width: 10, height: 10, marginRight: 4, background: region.tint }}/>}
+                            {region.name}
+                        </span>
+                        <button title="Move up" style={{ padding: 4 }} onClick={() => onChange(moveRegion(regions, region.id, 1))}>
+                            <FaArrowUp/>
+                        </button>
+                        <button title="Move down" style={{ padding: 4 }} onClick={() => onChange(moveRegion(regions, region.id, -1))}>
+                            <FaArrowDown/>
+                        </button>
+                    </div>
+                ))}
+            </div>
+            {selected && (
+                <div style={{ borderTop: '1px solid #ccc', paddingTop: 8, display: 'flex', flexDirection: 'column', gap: 6 }}>
+                    <label>
+                        Name:{' '}
+                        <input type="text" value={selected.name} onChange={e => update({ name: e.target.value })}/>
+                    </label>
+                    <label>
+                        Grid: <RuleSelect value={selected.grid} onChange={grid => update({ grid })}/>
+                    </label>
+                    <label>
+                        Labels: <RuleSelect value={selected.labels} onChange={labels => update({ labels })}/>
+                    </label>
+                    <label>
+                        <input type="checkbox" checked={!!selected.tint} onChange={e => update({ tint: e.target.checked ? '#ff9800' : '' })}/>
+                        Tint hexes{' '}
+                        {selected.tint && <input type="color" value={selected.tint} onChange={e => update({ tint: e.target.value })}/>}
+                    </label>
+                    <label>
+                        Default terrain:{' '}
+                        <select value={selected.terrain} onChange={e => update({ terrain: e.target.value })}>
+                            <option value="">(none)</option>
+                            {terrains.map(terrain => <option key={terrain.name} value={terrain.name}>{terrain.name}</option>)}
+                        </select>
+                    </label>
+                    <button onClick={() => onChange(regions.filter(region => region.id !== selected.id))}>
+                        <FaTrash/> Delete Region
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default RegionPanel;
@@ -0,0 +1,144 @@
+import {useState} from 'react';
+import {FaPlus, FaTrash} from 'react-icons/fa';
+import {formatEntries, newRollTable, parseEntries, type RollSettings, type RollTable, type RollTableKind} from './rollTables.ts';
+import type {Region} from './regions.ts';
+import type {TerrainType} from './terrain.ts';
+
+interface RollTablesPanelProps {
+    tables: RollTable[];
+    settings: RollSettings;
+    terrains: TerrainType[];
+    regions: Region[];
+    // what "Populate" covers, e.g. "all 240 hexes"
+    populateScope: string;
+    lastResults: string[];
+    onTablesChange: (tables: RollTable[]) => void;
+    onSettingsChange: (settings: RollSettings) => void;
+    onPopulate: () => void;
+}
+
+interface TableEditorProps {
+    table: RollTable;
+    terrains: TerrainType[];
+    regions: Region[];
+    onChange: (table: RollTable) => void;
+    onRemove: () => void;
+}
+
+function TableEditor({ table, terrains, regions, onChange, onRemove }: TableEditorProps) {
+    // entries are edited as free text so half-typed lines aren't dropped
+    const [entriesText, setEntriesText] = useState<string>(formatEntries(table.entries));
+
+    return (
+        <div style={{ borderTop: '1px solid #ccc', paddingTop: 8, display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <div style={{ display: 'flex', gap: 6 }}>
+                <input type="text" style={{ flex: 1 }} value={table.name} onChange={e => onChange({ ...table, name: e.target.value })}/>
+                <button title={`Remove ${table.name}`} style={{ padding: 4 }} onClick={onRemove}>
+                    <FaTrash/>
+                </button>
+            </div>
+            <label>
+                Kind:{' '}
+                <select value={table.kind} onChange={e => onChange({ ...table, kind: e.target.value as RollTableKind })}>
+                    <option value="encounter">encounter</option>
+                    <option value="content">hex content</option>
+                </select>
+            </label>
+            <label>
+                Terrain:{' '}
+                <select value={table.terrain} onChange={e => onChange({ ...table, terrain: e.target.value })}>
+                    <option value="">(any)</option>
+                    {terrains.map(terrain => <option key={terrain.name} value={terrain.name}>{terrain.name}</option>)}
+                </select>
+            </label>
+            <label>
+                Region:{' '}
+                <select
+                    value={table.region ?? ''}
+                    onChange={e => onChange({ ...table, region: e.target.value || null })}
+                >
+                    <option value="">(anywhere)</option>
+                    {regions.map(region => <option key={region.id} value={region.id}>{region.name}</option>)}
+                </select>
+            </label>
+            <label>
+                Chance:{' '}
+                <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    style={{ width: 60 }}
+                    value={table.chance}
+                    onChange={e => onChange({ ...table, chance: parseFloat(e.target.value) || 0 })}
+                />
+                %
+            </label>
+            <textarea
+                rows={4}
+                style={{ width: '100%', boxSizing: 'border-box' }}
+                placeholder="3: 2d6 wolves"
+                value={entriesText}
+                onChange={e => {
+                    setEntriesText(e.target.value);
+                    onChange({ ...table, entries: parseEntries(e.target.value) });
+                }}
+            />
+        </div>
+    );
+}
+
+// Side panel for the Roll tool: table editing, seeded region population and the latest rolls
+function RollTablesPanel({ tables, settings, terrains, regions, populateScope, lastResults, onTablesChange, onSettingsChange, onPopulate }: RollTablesPanelProps) {
+    return (
+        <div style={{ width: 300, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Roll tables</strong>
+            <small>Click a hex to roll its encounter tables. One entry per line as "weight: text"; dice like 2d6 are rolled. Results go into the hex's notes.</small>
+            <label>
+                <input
+                    type="checkbox"
+                    checked={settings.shouldRollOnEnter}
+                    onChange={e => onSettingsChange({ ...settings, shouldRollOnEnter: e.target.checked })}
+                />
+                Roll encounters when the party enters a hex
+            </label>
+            {lastResults.length > 0 && (
+                <div>
+                    Last roll:
+                    <ul style={{ margin: 0, paddingLeft: 18 }}>
+                        {lastResults.map((result, i) => <li key={i}>{result}</li>)}
+                    </ul>
+                </div>
+            )}
+            <div style={{ maxHeight: 360, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 8 }}>
+                {tables.map(table => (
+                    <TableEditor
+                        key={table.id}
+                        table={table}
+                        terrains={terrains}
+                        regions={regions}
+                        onChange={updated => onTablesChange(tables.map(t => t.id === table.id ? updated : t))}
+                        onRemove={() => onTablesChange(tables.filter(t => t.id !== table.id))}
+                    />
+                ))}
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+                <button onClick={() => onTablesChange([...tables, newRollTable('encounter')])}><FaPlus/> Encounters</button>
+                <button onClick={() => onTablesChange([...tables, newRollTable('content')])}><FaPlus/> Contents</button>
+            </div>
+            <div style={{ borderTop: '1px solid #ccc', paddingTop: 8, display: 'flex', flexDirection: 'column', gap: 4 }}>
+                <strong>Populate</strong>
+                <small>Rolls the hex content tables over {populateScope}. The same seed gives the same result; running again replaces earlier results.</small>
+                <label>
+                    Seed:{' '}
+                    <input type="text" value={settings.seed} onChange={e => onSettingsChange({ ...settings, seed: e.target.value })}/>
+                </label>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    <button onClick={() => onSettingsChange({ ...settings, seed: Math.random().toString(36).slice(2, 10) })}>New Seed</button>
+                    <button disabled={!tables.some(table => table.kind === 'content')} onClick={onPopulate}>Populate</button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default RollTablesPanel;
@@ -0,0 +1,120 @@
+import type React from 'react';
+import {FaTrash} from 'react-icons/fa';
+import {isStampSymbol, STAMP_SYMBOLS, SYMBOL_BOX, type Stamp, type StampIcon, type StampOptions, type StampSymbol, type StampVisibility} from './stamps.ts';
+
+interface StampPanelProps {
+    options: StampOptions;
+    icons: StampIcon[];
+    // the stamp last placed or clicked, or null
+    selected: Stamp | null;
+    stampCount: number;
+    onOptionsChange: (options: StampOptions) => void;
+    onUploadIcon: (file: File) => void;
+    onRemoveIcon: (id: string) => void;
+    onSelectedChange: (stamp: Stamp) => void;
+    onDeleteSelected: () => void;
+}
+
+function IconPreview({ icon, icons, color }: { icon: string; icons: StampIcon[]; color: string }) {
+    if (isStampSymbol(icon)) {
+        return (
+            <svg width={20} height={20} viewBox={`0 0 ${SYMBOL_BOX} ${SYMBOL_BOX}`} style={{ verticalAlign: 'middle' }}>
+                <path d={STAMP_SYMBOLS[icon]} fill={color} fillRule="evenodd"/>
+            </svg>
+        );
+    }
+    const uploaded = icons.find(i => i.id === icon);
+    return uploaded ? <img src={uploaded.dataUrl} alt="" width={20} height={20} style={{ objectFit: 'contain', verticalAlign: 'middle' }}/> : null;
+}
+
+// size, color and visibility controls shared by new and selected stamps
+function StampFields<T extends { size: number; color: string; visibility: StampVisibility }>({ value, showColor, onChange }: { value: T; showColor: boolean; onChange: (value: T) => void }) {
+    return (
+        <>
+            <label title="Percentage of the hex radius, so stamps follow the hex size">
+                Size:{' '}
+                <input
+                    type="range"
+                    min={25}
+                    max={170}
+                    step={5}
+                    value={value.size}
+                    onChange={e => onChange({ ...value, size: parseInt(e.target.value) })}
+                />
+                {' '}{value.size}% of hex
+            </label>
+            {showColor && (
+                <label>
+                    Color:{' '}
+                    <input type="color" value={value.color} onChange={e => onChange({ ...value, color: e.target.value })}/>
+                </label>
+            )}
+            <label title="GM-only stamps stay out of the player view and get their own layer in the SVG">
+                <input
+                    type="checkbox"
+                    checked={value.visibility === 'gm'}
+                    onChange={e => onChange({ ...value, visibility: e.target.checked ? 'gm' : 'players' })}
+                />
+                GM only
+            </label>
+        </>
+    );
+}
+
+// Side panel for the Stamp tool
+function StampPanel({ options, icons, selected, stampCount, onOptionsChange, onUploadIcon, onRemoveIcon, onSelectedChange, onDeleteSelected }: StampPanelProps) {
+    const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onUploadIcon(file);
+    };
+
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Stamps</strong>
+            <small>Click to place the icon, click a stamp to select it, drag to move it. {stampCount} stamps on the map.</small>
+            {(Object.keys(STAMP_SYMBOLS) as StampSymbol[]).map(symbol => (
+                <label key={symbol}>
+                    <input type="radio" checked={options.icon === symbol} onChange={() => onOptionsChange({ ...options, icon: symbol })}/>
+                    <IconPreview icon={symbol} icons={icons} color={options.color}/> {symbol}
+                </label>
+            ))}
+            {icons.map(icon => (
+                <div key={icon.id} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <label style={{ flex: 1 }}>
+                        <input type="radio" checked={options.icon === icon.id} onChange={() => onOptionsChange({ ...options, icon: icon.id })}/>
+                        <IconPreview icon={icon.id} icons={icons} color={options.color}/> {icon.name}
+                    </label>
+                    <button title={`Remove ${icon.name} and its stamps`} style={{ padding: 4 }} onClick={() => onRemoveIcon(icon.id)}>
+                        <FaTrash/>
+                    </button>
+                </div>
+            ))}
+            <label title="A PNG or SVG image to stamp like the built-in symbols">
+                Upload icon:{' '}
+                <input type="file" accept="image/png,image/svg+xml,.png,.svg" onChange={handleUpload}/>
+            </label>
+            <StampFields value={options} showColor={isStampSymbol(options.icon)} onChange={onOptionsChange}/>
+            <label title="Snapped stamps sit on a hex center and follow it when the grid moves">
+                <input
+                    type="checkbox"
+                    checked={options.shouldSnap}
+                    onChange={e => onOptionsChange({ ...options, shouldSnap: e.target.checked })}
+                />
+                Snap to hex centers
+            </label>
+            {selected && (
+                <>
+                    <strong>Selected stamp</strong>
+                    <small>{selected.hex !== null ? 'On a hex center' : 'Placed freely'}</small>
+                    <StampFields value={selected} showColor={isStampSymbol(selected.icon)} onChange={onSelectedChange}/>
+                    <button onClick={onDeleteSelected}>
+                        <FaTrash/> Delete Stamp
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
+
+export default StampPanel;
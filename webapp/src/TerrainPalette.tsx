@@ -0,0 +1,80 @@
+import {useState} from 'react';
+import {FaEraser, FaPlus, FaTrash} from 'react-icons/fa';
+import type {TerrainType} from './terrain.ts';
+
+interface TerrainPaletteProps {
+    palette: TerrainType[];
+    brush: string;
+    onBrushChange: (name: string) => void;
+    onPaletteChange: (palette: TerrainType[]) => void;
+}
+
+// Brush picker for the Paint tool. An empty brush erases terrain.
+function TerrainPalette({ palette, brush, onBrushChange, onPaletteChange }: TerrainPaletteProps) {
+    const [newName, setNewName] = useState<string>('');
+
+    const addTerrain = () => {
+        const name = newName.trim().toLowerCase();
+        if (!name || palette.some(terrain => terrain.name === name)) return;
+        onPaletteChange([...palette, { name, color: '#888888', cost: 1 }]);
+        onBrushChange(name);
+        setNewName('');
+    };
+
+    return (
+        <div style={{ width: 260, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <strong>Terrain brush</strong>
+            <small>The number is the movement cost of crossing a hex.</small>
+            <label>
+                <input type="radio" checked={brush === ''} onChange={() => onBrushChange('')}/>
+                <FaEraser/> Erase
+            </label>
+            {palette.map(terrain => (
+                <div key={terrain.name} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <label style={{ flex: 1 }}>
+                        <input type="radio" checked={brush === terrain.name} onChange={() => onBrushChange(terrain.name)}/>
+                        {terrain.name}
+                    </label>
+                    <input
+                        type="number"
+                        title="Movement cost"
+                        min={0}
+                        step={0.5}
+                        style={{ width: 45 }}
+                        value={terrain.cost}
+                        onChange={e => onPaletteChange(palette.map(t => t.name === terrain.name ? { ...t, cost: parseFloat(e.target.value) || 0 } : t))}
+                    />
+                    <input
+                        type="color"
+                        value={terrain.color}
+                        onChange={e => onPaletteChange(palette.map(t => t.name === terrain.name ? { ...t, color: e.target.value } : t))}
+                    />
+                    <button
+                        title={`Remove ${terrain.name}`}
+                        style={{ padding: 4 }}
+                        onClick={() => {
+                            onPaletteChange(palette.filter(t => t.name !== terrain.name));
+                            if (brush === terrain.name) onBrushChange('');
+                        }}
+                    >
+                        <FaTrash/>
+                    </button>
+                </div>
+            ))}
+            <div style={{ display: 'flex', gap: 6 }}>
+                <input
+                    type="text"
+                    placeholder="new terrain"
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') addTerrain(); }}
+                />
+                <button title="Add terrain" style={{ padding: 4 }} onClick={addTerrain}>
+                    <FaPlus/>
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default TerrainPalette;
@@ -0,0 +1,83 @@
+import {travelStatus, type PartyState, type TravelSettings} from './travel.ts';
+
+interface TravelPanelProps {
+    party: PartyState;
+    settings: TravelSettings;
+    labelFor: (key: string) => string;
+    onSettingsChange: (settings: TravelSettings) => void;
+    onCamp: () => void;
+    onUndo: () => void;
+    onClear: () => void;
+}
+
+// Side panel for the Party tool: today's travel budget and the travel log
+function TravelPanel({ party, settings, labelFor, onSettingsChange, onCamp, onUndo, onClear }: TravelPanelProps) {
+    const { day, usedToday } = travelStatus(party.log);
+    const isSpent = usedToday >= settings.milesPerDay;
+
+    return (
+        <div style={{ width: 300, padding: 12, border: '1px solid #ccc', textAlign: 'left', display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <strong>Party travel</strong>
+            <small>
+                {party.position
+                    ? `Party at ${labelFor(party.position)}. Click a hex to move.`
+                    : 'Click a hex to place the party.'}
+            </small>
+            <label>
+                Miles per day:{' '}
+                <input
+                    type="number"
+                    min={1}
+                    style={{ width: 60 }}
+                    value={settings.milesPerDay}
+                    onChange={e => onSettingsChange({ ...settings, milesPerDay: parseFloat(e.target.value) || settings.milesPerDay })}
+                />
+            </label>
+            <label>
+                Watches per day:{' '}
+                <input
+                    type="number"
+                    min={1}
+                    style={{ width: 60 }}
+                    value={settings.watchesPerDay}
+                    onChange={e => onSettingsChange({ ...settings, watchesPerDay: parseInt(e.target.value) || settings.watchesPerDay })}
+                />
+            </label>
+            <div>
+                Day {day}: {usedToday.toFixed(1)} / {settings.milesPerDay} mi
+                <progress style={{ width: '100%' }} max={settings.milesPerDay} value={Math.min(usedToday, settings.milesPerDay)}/>
+                {isSpent && <div style={{ color: 'red' }}>Daily travel budget used up — make camp.</div>}
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+                <button disabled={!party.position} onClick={onCamp}>Make Camp</button>
+                <button disabled={party.log.length === 0} onClick={onUndo}>Undo</button>
+                <button disabled={party.log.length === 0} onClick={onClear}>Clear</button>
+            </div>
+            <div style={{ maxHeight: 240, overflowY: 'auto' }}>
+                <table style={{ width: '100%', fontSize: '0.85em', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr><th>Day</th><th>Watch</th><th>Move</th><th>Hexes</th><th>Miles</th><th>Cost</th></tr>
+                    </thead>
+                    <tbody>
+                        {party.log.map((entry, i) => (
+                            <tr key={i}>
+                                <td>{entry.day}</td>
+                                <td>{entry.kind === 'move' ? entry.watch : ''}</td>
+                                <td>
+                                    {entry.kind === 'start' && `Start ${labelFor(entry.to)}`}
+                                    {entry.kind === 'camp' && 'Camp'}
+                                    {entry.kind === 'move' && `${entry.from ? labelFor(entry.from) : ''} → ${labelFor(entry.to)}${entry.terrain ? ` (${entry.terrain})` : ''}`}
+                                </td>
+                                <td>{entry.hexes || ''}</td>
+                                <td>{entry.miles || ''}</td>
+                                <td>{entry.cost ? entry.cost.toFixed(1) : ''}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+export default TravelPanel;
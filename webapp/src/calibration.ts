@@ -0,0 +1,55 @@
+// Scale calibration: derive pixels-per-mile from two clicks on the map's scale bar.
+import {hexCorners, type GridLayout, type Point} from './hexGrid.ts';
+
+export type DistanceUnit = 'mi' | 'km';
+
+export const MILES_PER_KM = 0.621371;
+
+export function toMiles(distance: number, unit: DistanceUnit) {
+    return unit === 'km' ? distance * MILES_PER_KM : distance;
+}
+
+// null until both ends are placed and the distance is a positive number
+export function pixelsPerMileFromRuler(points: Point[], distance: number, unit: DistanceUnit): number | null {
+    if (points.length < 2 || !(distance > 0)) return null;
+    const [a, b] = points;
+    const pixels = Math.hypot(b.x - a.x, b.y - a.y);
+    if (pixels === 0) return null;
+    return pixels / toMiles(distance, unit);
+}
+
+// Ruler line with end markers, plus one hex at the calibrated size centered on the ruler.
+// Drawn in world coordinates; markers and lines keep their screen size at any `zoom`.
+export function drawCalibrationPreview(ctx: CanvasRenderingContext2D, points: Point[], ppm: number | null, hexMiles: number, layout: GridLayout, zoom: number) {
+    ctx.save();
+    ctx.strokeStyle = 'magenta';
+    ctx.fillStyle = 'magenta';
+    ctx.lineWidth = 2 / zoom;
+    points.forEach(({ x, y }) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 5 / zoom, 0, Math.PI * 2);
+        ctx.fill();
+    });
+    if (points.length === 2) {
+        const [a, b] = points;
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+
+        if (ppm) {
+            // same radius math as computeHexGrid
+            const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+            const corners = hexCorners(center, (ppm * hexMiles) / 2, layout.orientation, layout.rotation);
+            ctx.setLineDash([6 / zoom, 4 / zoom]);
+            ctx.beginPath();
+            corners.forEach((pt, i) => {
+                if (i === 0) ctx.moveTo(pt.x, pt.y);
+                else ctx.lineTo(pt.x, pt.y);
+            });
+            ctx.closePath();
+            ctx.stroke();
+        }
+    }
+    ctx.restore();
+}
@@ -0,0 +1,122 @@
+// Hex data exports: the computed grid as JSON/CSV, and a Foundry VTT scene grid config.
+// All positions are in source-image pixels (the canvas padding is subtracted).
+import type {HexData, HexDataMap} from './hexData.ts';
+import {hexKey, type HexCell, type HexGrid, type Point} from './hexGrid.ts';
+import type {GridLineStyle} from './gridStyle.ts';
+import {findLabelOrigin, formatHexLabel, type LabelStyle} from './labels.ts';
+
+export interface ExportedHex {
+    key: string;
+    label: string;
+    col: number;
+    row: number;
+    q: number;
+    r: number;
+    s: number;
+    center: Point;
+    corners: Point[];
+    drawn: boolean;
+    data: HexData | null;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+// hexes that touch the image, with positions shifted into image coordinates
+export function collectHexes(grid: HexGrid, hexData: HexDataMap, labelStyle: LabelStyle, inset: number): ExportedHex[] {
+    const origin = findLabelOrigin(grid, labelStyle.origin, inset);
+    const toImage = (pt: Point) => ({ x: round(pt.x - inset), y: round(pt.y - inset) });
+    const width = grid.width - inset * 2;
+    const height = grid.height - inset * 2;
+    const touchesImage = (cell: HexCell) => cell.corners.some(pt =>
+        pt.x >= inset && pt.x <= inset + width && pt.y >= inset && pt.y <= inset + height);
+
+    return grid.cells.filter(touchesImage).map(cell => {
+        const key = hexKey(cell.col, cell.row);
+        return {
+            key,
+            label: origin ? formatHexLabel(grid, cell, origin, labelStyle) : key,
+            col: cell.col,
+            row: cell.row,
+            q: cell.q,
+            r: cell.r,
+            s: cell.s,
+            center: toImage(cell.center),
+            corners: cell.corners.map(toImage),
+            drawn: cell.drawn,
+            data: hexData[key] ?? null,
+        };
+    });
+}
+
+function csvField(value: string | number | boolean) {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function hexesToCsv(hexes: ExportedHex[]): string {
+    const header = ['label', 'col', 'row', 'q', 'r', 's', 'center_x', 'center_y', 'drawn', 'terrain', 'name', 'notes', 'tags', 'corners'];
+    const rows = hexes.map(hex => [
+        hex.label, hex.col, hex.row, hex.q, hex.r, hex.s, hex.center.x, hex.center.y, hex.drawn,
+        hex.data?.terrain ?? '',
+        hex.data?.name ?? '',
+        hex.data?.notes ?? '',
+        (hex.data?.tags ?? []).join(';'),
+        // "x y;x y;…"
+        hex.corners.map(pt => `${pt.x} ${pt.y}`).join(';'),
+    ].map(csvField).join(','));
+    return [header.join(','), ...rows].join('\n');
+}
+
+// Foundry VTT grid types for hexes: odd-r rows (pointy) and odd-q columns (flat)
+const FOUNDRY_HEX_ODD_R = 2;
+const FOUNDRY_HEX_ODD_Q = 4;
+
+export interface FoundrySceneConfig {
+    name: string;
+    width: number;
+    height: number;
+    padding: number;
+    background: { src: string; offsetX: number; offsetY: number };
+    grid: { type: number; size: number; distance: number; units: string; color: string; alpha: number };
+    // anything the VTT grid can't reproduce
+    warnings: string[];
+}
+
+// Scene grid settings that line a Foundry hex grid up with ours: `size` is the distance across
+// a hex's flats, and the background image is shifted so our hexes land on Foundry's.
+export function foundrySceneConfig(grid: HexGrid, hexMiles: number, lines: GridLineStyle, imageName: string, inset: number): FoundrySceneConfig {
+    const { radius, layout } = grid;
+    const flat = layout.orientation === 'flat';
+    const acrossFlats = Math.sqrt(3) * radius;
+    const warnings: string[] = [];
+    if (layout.rotation % 360 !== 0) warnings.push('Foundry grids cannot be rotated; the rotation was ignored.');
+
+    // any hex with even col (flat) / even row (pointy) will do; Foundry centers its first one at:
+    const foundryCenter = flat ? { x: radius, y: acrossFlats / 2 } : { x: acrossFlats / 2, y: radius };
+    const ours = grid.cells.find(cell => flat ? (cell.col & 1) === 0 : (cell.row & 1) === 0);
+    // the grid pattern repeats every two columns (flat) or two rows (pointy)
+    const periodX = flat ? 3 * radius : acrossFlats;
+    const periodY = flat ? acrossFlats : 3 * radius;
+    const wrap = (value: number, period: number) => ((value % period) + period) % period;
+    const offsetX = ours ? wrap(foundryCenter.x - (ours.center.x - inset), periodX) : 0;
+    const offsetY = ours ? wrap(foundryCenter.y - (ours.center.y - inset), periodY) : 0;
+
+    return {
+        name: imageName.replace(/\.[^.]+$/, ''),
+        width: Math.round(grid.width - inset * 2),
+        height: Math.round(grid.height - inset * 2),
+        padding: 0,
+        background: { src: imageName, offsetX: Math.round(offsetX), offsetY: Math.round(offsetY) },
+        grid: {
+            type: flat ? FOUNDRY_HEX_ODD_Q : FOUNDRY_HEX_ODD_R,
+            size: round(acrossFlats),
+            distance: hexMiles,
+            units: 'mi',
+            color: lines.color,
+            alpha: lines.opacity,
+        },
+        warnings,
+    };
+}
@@ -0,0 +1,10 @@
+// Trigger a browser download for generated content
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // give the browser a tick to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
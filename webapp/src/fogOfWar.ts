@@ -0,0 +1,53 @@
+// Fog of war: the player view only shows hexes the GM has revealed, plus the grid.
+import {hexKey, type HexGrid, type Point} from './hexGrid.ts';
+
+export const FOG_COLOR = '#1b1b1b';
+
+function traceHex(ctx: CanvasRenderingContext2D, corners: Point[]) {
+    corners.forEach((pt, i) => {
+        if (i === 0) ctx.moveTo(pt.x, pt.y);
+        else ctx.lineTo(pt.x, pt.y);
+    });
+    ctx.closePath();
+}
+
+// toggle a hex key in the revealed list without mutating it
+export function toggleRevealed(revealed: string[], key: string): string[] {
+    return revealed.includes(key) ? revealed.filter(k => k !== key) : [...revealed, key];
+}
+
+// `mapLayers` are drawn only inside revealed hexes; `gridLayer` is drawn everywhere on top
+export function drawPlayerView(
+    ctx: CanvasRenderingContext2D,
+    grid: HexGrid,
+    revealed: Set<string>,
+    mapLayers: CanvasImageSource[],
+    gridLayer: CanvasImageSource
+) {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = FOG_COLOR;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.save();
+    ctx.beginPath();
+    grid.cells.forEach(cell => {
+        if (revealed.has(hexKey(cell.col, cell.row))) traceHex(ctx, cell.corners);
+    });
+    ctx.clip();
+    mapLayers.forEach(layer => ctx.drawImage(layer, 0, 0));
+    ctx.restore();
+
+    ctx.drawImage(gridLayer, 0, 0);
+}
+
+// GM-side hint: darken hexes the players can't see yet
+export function drawFogPreview(ctx: CanvasRenderingContext2D, grid: HexGrid, revealed: Set<string>) {
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.beginPath();
+    grid.cells.forEach(cell => {
+        if (cell.drawn && !revealed.has(hexKey(cell.col, cell.row))) traceHex(ctx, cell.corners);
+    });
+    ctx.fill();
+    ctx.restore();
+}
@@ -0,0 +1,75 @@
+// The grid layer: hex outlines (with any sub-hexes beneath), clipping to the shown areas and
+// coordinate labels. Drawn by the grid worker for the view tiles and on the page for
+// full-resolution exports.
+import type {Canvas2D, HexCell, HexGrid} from './hexGrid.ts';
+import {centerDotRadius, contrastColor, dashFor, lineWidthFor, underStrokeWidth, uniqueEdges, type GridLineStyle} from './gridStyle.ts';
+import {drawHexLabels, type LabelStyle} from './labels.ts';
+import type {SubGrid} from './nestedGrid.ts';
+import {clipToShownAreas, regionLabelFilter, type Region} from './regions.ts';
+import {cellsNear, type Rect} from './viewport.ts';
+
+// what the grid layer draws over the outlines
+export interface GridLayerStyle {
+    lines: GridLineStyle;
+    subLines: GridLineStyle;
+    // null for no labels
+    labelStyle: LabelStyle | null;
+    // canvas padding around the image, which label origins skip
+    labelInset: number;
+    regions: Region[];
+    shouldClip: boolean;
+}
+
+export function overlayHexGrid(ctx: Canvas2D, grid: HexGrid, style: GridLineStyle, cells: HexCell[] = grid.cells) {
+    const width = lineWidthFor(style, grid.radius);
+    // one path for all sides, so each is stroked once
+    const edges = uniqueEdges(cells);
+    const tracePath = () => {
+        ctx.beginPath();
+        edges.forEach(([a, b]) => {
+            ctx.moveTo(a.x, a.y);
+            ctx.lineTo(b.x, b.y);
+        });
+    };
+
+    ctx.save();
+    ctx.globalAlpha = style.opacity;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    if (style.underStroke) {
+        tracePath();
+        ctx.strokeStyle = contrastColor(style.color);
+        ctx.lineWidth = underStrokeWidth(width);
+        ctx.stroke();
+    }
+    tracePath();
+    ctx.strokeStyle = style.color;
+    ctx.lineWidth = width;
+    ctx.setLineDash(dashFor(style.pattern, width));
+    ctx.stroke();
+    if (style.centerDots) {
+        ctx.fillStyle = style.color;
+        ctx.beginPath();
+        cells.forEach(cell => {
+            if (!cell.drawn) return;
+            ctx.moveTo(cell.center.x + centerDotRadius(width), cell.center.y);
+            ctx.arc(cell.center.x, cell.center.y, centerDotRadius(width), 0, Math.PI * 2);
+        });
+        ctx.fill();
+    }
+    ctx.restore();
+}
+
+// Outlines and labels in world coordinates, limited to `area` for a view tile or everything for export
+export function drawGridLayer(ctx: Canvas2D, grid: HexGrid, subGrid: SubGrid | null, style: GridLayerStyle, area: Rect | null = null) {
+    const near = (of: HexGrid) => area ? cellsNear(of.cells, area, of.hexWidth + of.hexHeight) : of.cells;
+    const cells = near(grid);
+    if (subGrid) overlayHexGrid(ctx, subGrid.grid, style.subLines, near(subGrid.grid));
+    overlayHexGrid(ctx, grid, style.lines, cells);
+    if (style.shouldClip) clipToShownAreas(ctx, style.regions);
+    if (!style.labelStyle) return;
+    // labels are numbered over the whole grid, so only the drawing is limited to the area
+    const nearby = new Set(cells);
+    const isLabeled = regionLabelFilter(style.regions);
+    drawHexLabels(ctx, grid, style.labelStyle, style.labelInset, cell => nearby.has(cell) && isLabeled(cell));
+}
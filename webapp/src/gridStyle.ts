@@ -0,0 +1,93 @@
+// How grid lines look: color, opacity, a width that follows the hex size, dash patterns, a
+// contrasting under-stroke and center dots. Shared by the canvas layers and the SVG export.
+import type {HexCell, Point} from './hexGrid.ts';
+
+export type LinePattern = 'solid' | 'dashed' | 'dotted';
+
+export interface GridLineStyle {
+    // always #rrggbb
+    color: string;
+    // 0..1
+    opacity: number;
+    // line width as a percentage of the hex radius, so upscaled maps get proportionally heavier lines
+    width: number;
+    pattern: LinePattern;
+    // a wider line of the opposite lightness beneath, to keep the grid visible on any terrain
+    underStroke: boolean;
+    centerDots: boolean;
+}
+
+export const DEFAULT_GRID_STYLE: GridLineStyle = {
+    color: '#000000',
+    opacity: 1,
+    width: 1.5,
+    pattern: 'solid',
+    underStroke: false,
+    centerDots: false,
+};
+
+export const DEFAULT_SUB_GRID_STYLE: GridLineStyle = { ...DEFAULT_GRID_STYLE, color: '#808080', pattern: 'dashed' };
+
+const MIN_LINE_WIDTH = 0.5; // pixels
+const UNDER_STROKE_SCALE = 2.5; // under-stroke width per line width
+
+// the CSS basic color keywords, for colors typed in before the color picker
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000', silver: '#c0c0c0', gray: '#808080', grey: '#808080', white: '#ffffff',
+    maroon: '#800000', red: '#ff0000', purple: '#800080', fuchsia: '#ff00ff',
+    green: '#008000', lime: '#00ff00', olive: '#808000', yellow: '#ffff00',
+    navy: '#000080', blue: '#0000ff', teal: '#008080', aqua: '#00ffff',
+};
+
+// a color name, #rgb or #rrggbb as #rrggbb; null for anything else
+export function toHexColor(text: string): string | null {
+    const value = text.trim().toLowerCase();
+    if (NAMED_COLORS[value]) return NAMED_COLORS[value];
+    if (/^#[0-9a-f]{6}$/.test(value)) return value;
+    if (/^#[0-9a-f]{3}$/.test(value)) return '#' + [...value.slice(1)].map(c => c + c).join('');
+    return null;
+}
+
+// black or white, whichever stands out more against `color`
+export function contrastColor(color: string): string {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16) / 255);
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.5 ? '#000000' : '#ffffff';
+}
+
+export function lineWidthFor(style: GridLineStyle, radius: number): number {
+    return Math.max(MIN_LINE_WIDTH, radius * style.width / 100);
+}
+
+export function underStrokeWidth(lineWidth: number): number {
+    return lineWidth * UNDER_STROKE_SCALE;
+}
+
+// dash lengths in pixels; dots are zero-length dashes drawn with round caps
+export function dashFor(pattern: LinePattern, lineWidth: number): number[] {
+    if (pattern === 'dashed') return [lineWidth * 4, lineWidth * 3];
+    if (pattern === 'dotted') return [0, lineWidth * 2.5];
+    return [];
+}
+
+export function centerDotRadius(lineWidth: number): number {
+    return lineWidth * 1.5;
+}
+
+// Every hex side once. Neighbours share sides, and stroking them twice darkens translucent lines
+// and puts two out-of-step dash patterns on top of each other.
+export function uniqueEdges(cells: HexCell[]): [Point, Point][] {
+    const seen = new Set<string>();
+    const edges: [Point, Point][] = [];
+    const id = (pt: Point) => `${Math.round(pt.x * 10)},${Math.round(pt.y * 10)}`;
+    cells.forEach(cell => {
+        if (!cell.drawn) return;
+        cell.corners.forEach((a, i) => {
+            const b = cell.corners[(i + 1) % cell.corners.length];
+            const key = [id(a), id(b)].sort().join(';');
+            if (seen.has(key)) return;
+            seen.add(key);
+            edges.push([a, b]);
+        });
+    });
+    return edges;
+}
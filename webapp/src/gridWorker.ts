@@ -0,0 +1,73 @@
+// Grid worker: computes the hex grid with its region masking and rasterizes grid tiles on an
+// OffscreenCanvas, so settings changes on big maps don't freeze the page.
+import type {HexGrid} from './hexGrid.ts';
+import {drawGridLayer, type GridLayerStyle} from './gridLayer.ts';
+import {computeOverlayGrids, type GridParams} from './hexOverlay.ts';
+import type {SubGrid} from './nestedGrid.ts';
+import {TILE_SIZE, type TileRequest} from './viewport.ts';
+
+export type GridWorkerRequest =
+    | { type: 'grid'; id: number; params: GridParams }
+    | { type: 'style'; id: number; style: GridLayerStyle }
+    | { type: 'tile'; gridId: number; styleId: number; tile: TileRequest };
+
+// `bitmap` is null when the tile was asked for with a grid or style that has since been replaced
+export type GridWorkerResponse =
+    | { type: 'grid'; id: number; grid: HexGrid; subGrid: SubGrid | null }
+    | { type: 'tile'; gridId: number; styleId: number; key: string; bitmap: ImageBitmap | null };
+
+let grid: HexGrid | null = null;
+let subGrid: SubGrid | null = null;
+let gridId = -1;
+let style: GridLayerStyle | null = null;
+let styleId = -1;
+// newest grid request not yet computed
+let pendingGrid: { id: number; params: GridParams } | null = null;
+
+function respond(response: GridWorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(response, { transfer });
+}
+
+function computePendingGrid() {
+    if (!pendingGrid) return;
+    const { id, params } = pendingGrid;
+    pendingGrid = null;
+    ({ grid, subGrid } = computeOverlayGrids(params));
+    gridId = id;
+    respond({ type: 'grid', id, grid, subGrid });
+}
+
+function renderTile(request: { gridId: number; styleId: number; tile: TileRequest }) {
+    const { tile } = request;
+    if (!grid || !style || request.gridId !== gridId || request.styleId !== styleId) {
+        respond({ type: 'tile', gridId: request.gridId, styleId: request.styleId, key: tile.key, bitmap: null });
+        return;
+    }
+    const canvas = new OffscreenCanvas(TILE_SIZE, TILE_SIZE);
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        ctx.setTransform(tile.zoom, 0, 0, tile.zoom, -tile.tx * TILE_SIZE, -tile.ty * TILE_SIZE);
+        drawGridLayer(ctx, grid, subGrid, style, tile.area);
+    }
+    const bitmap = canvas.transferToImageBitmap();
+    respond({ type: 'tile', gridId, styleId, key: tile.key, bitmap }, [bitmap]);
+}
+
+self.onmessage = (e: MessageEvent<GridWorkerRequest>) => {
+    const request = e.data;
+    switch (request.type) {
+        case 'grid':
+            // only the newest of a burst of requests (e.g. typing or dragging) is worth computing,
+            // so wait until the queued messages are through
+            if (!pendingGrid) setTimeout(computePendingGrid);
+            pendingGrid = request;
+            break;
+        case 'style':
+            style = request.style;
+            styleId = request.id;
+            break;
+        case 'tile':
+            renderTile(request);
+            break;
+    }
+};
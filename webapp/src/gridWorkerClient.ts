@@ -0,0 +1,105 @@
+// Page side of the grid worker: newest-wins grid requests and a cache of the tiles it renders.
+// Replaced tiles stay on screen until their successors arrive, so edits don't flicker.
+import type {GridLayerStyle} from './gridLayer.ts';
+import type {HexGrid} from './hexGrid.ts';
+import type {SubGrid} from './nestedGrid.ts';
+import type {GridWorkerRequest, GridWorkerResponse} from './gridWorker.ts';
+import type {GridParams} from './hexOverlay.ts';
+import type {TileRequest} from './viewport.ts';
+import GridWorker from './gridWorker.ts?worker';
+
+// tiles kept; the oldest go first
+const MAX_TILES = 96;
+
+export interface GridWorkerClient {
+    requestGrid: (params: GridParams) => void;
+    setStyle: (style: GridLayerStyle) => void;
+    // the tile if it's ready; otherwise asks for it and returns the outdated one, if any
+    tile: (request: TileRequest) => ImageBitmap | null;
+    // a tile already here, current or outdated, without asking for it
+    cachedTile: (key: string) => ImageBitmap | null;
+    dispose: () => void;
+}
+
+// `onGrid` gets each newly computed grid and its sub-hexes; `onTile` is called (at most once a frame) when tiles arrive
+export function createGridWorkerClient(onGrid: (grid: HexGrid, subGrid: SubGrid | null) => void, onTile: () => void): GridWorkerClient {
+    const worker = new GridWorker();
+    let nextId = 0;
+    let latestGridId = -1, gridId = -1, styleId = -1;
+    let tiles = new Map<string, ImageBitmap>();
+    let outdated = new Map<string, ImageBitmap>();
+    const pending = new Set<string>();
+    let frame = 0;
+
+    const post = (request: GridWorkerRequest) => worker.postMessage(request);
+
+    const startOver = () => {
+        outdated.forEach(bitmap => bitmap.close());
+        outdated = tiles;
+        tiles = new Map();
+        pending.clear();
+    };
+
+    worker.onmessage = (e: MessageEvent<GridWorkerResponse>) => {
+        const response = e.data;
+        if (response.type === 'grid') {
+            // a newer request is on its way
+            if (response.id !== latestGridId) return;
+            gridId = response.id;
+            startOver();
+            onGrid(response.grid, response.subGrid);
+            return;
+        }
+        if (response.gridId !== gridId || response.styleId !== styleId) {
+            response.bitmap?.close();
+            return;
+        }
+        pending.delete(response.key);
+        if (!response.bitmap) return;
+        tiles.set(response.key, response.bitmap);
+        outdated.get(response.key)?.close();
+        outdated.delete(response.key);
+        if (tiles.size > MAX_TILES) {
+            const [key, bitmap] = tiles.entries().next().value!;
+            bitmap.close();
+            tiles.delete(key);
+        }
+        if (!frame) {
+            frame = requestAnimationFrame(() => {
+                frame = 0;
+                onTile();
+            });
+        }
+    };
+
+    return {
+        requestGrid(params) {
+            latestGridId = ++nextId;
+            post({ type: 'grid', id: latestGridId, params });
+        },
+        setStyle(style) {
+            styleId = ++nextId;
+            startOver();
+            post({ type: 'style', id: styleId, style });
+        },
+        tile(request) {
+            const ready = tiles.get(request.key);
+            if (ready) return ready;
+            if (gridId >= 0 && styleId >= 0 && !pending.has(request.key)) {
+                pending.add(request.key);
+                post({ type: 'tile', gridId, styleId, tile: request });
+            }
+            return outdated.get(request.key) ?? null;
+        },
+        cachedTile(key) {
+            return tiles.get(key) ?? outdated.get(key) ?? null;
+        },
+        dispose() {
+            cancelAnimationFrame(frame);
+            worker.terminate();
+            [tiles, outdated].forEach(cache => cache.forEach(bitmap => bitmap.close()));
+            tiles.clear();
+            outdated.clear();
+        },
+    };
+}
@@ -0,0 +1,29 @@
+// Per-hex prep notes, keyed by hexKey(col, row) of the grid model.
+
+export interface HexData {
+    terrain: string;
+    name: string;
+    notes: string;
+    tags: string[];
+}
+
+export type HexDataMap = Record<string, HexData>;
+
+export const EMPTY_HEX_DATA: HexData = { terrain: '', name: '', notes: '', tags: [] };
+
+export function isEmptyHexData(data: HexData) {
+    return !data.terrain && !data.name && !data.notes && data.tags.length === 0;
+}
+
+// "Lair, River crossing ,," -> ['Lair', 'River crossing']
+export function parseTags(text: string): string[] {
+    return text.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
+
+// set or clear a hex's data without mutating the previous map
+export function updateHexData(map: HexDataMap, key: string, data: HexData): HexDataMap {
+    const next = { ...map };
+    if (isEmptyHexData(data)) delete next[key];
+    else next[key] = data;
+    return next;
+}
@@ -0,0 +1,229 @@
+// Shared hex grid model: every consumer (drawing, labels, hit-testing, export)
+// reads hex positions from here so each hex has exactly one identity.
+
+export interface Point { x: number; y: number }
+
+// a page canvas or a worker's OffscreenCanvas; grid drawing runs on both
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type HexOrientation = 'flat' | 'pointy';
+
+// how the grid sits on the image: hex shape, a pixel offset for the whole grid,
+// and a rotation (degrees, clockwise) around that offset point
+export interface GridLayout {
+    orientation: HexOrientation;
+    offset: Point;
+    rotation: number;
+}
+
+export const DEFAULT_GRID_LAYOUT: GridLayout = { orientation: 'flat', offset: { x: 0, y: 0 }, rotation: 0 };
+
+// a single hex. col/row are offset coordinates ("odd-q" for flat-top: odd columns are
+// shoved down half a hex; "odd-r" for pointy-top: odd rows are shoved right),
+// q/r/s are the equivalent axial/cube coordinates.
+export interface HexCell {
+    col: number;
+    row: number;
+    q: number;
+    r: number;
+    s: number;
+    center: Point;
+    corners: Point[];
+    drawn: boolean;
+}
+
+export interface HexGrid {
+    // the pixel area the grid covers
+    width: number;
+    height: number;
+    cells: HexCell[];
+    byKey: Map<string, HexCell>;
+    minCol: number;
+    minRow: number;
+    rowCount: number;
+    colCount: number;
+    radius: number;
+    hexWidth: number;
+    hexHeight: number;
+    layout: GridLayout;
+}
+
+export function hexKey(col: number, row: number) {
+    return `${col},${row}`;
+}
+
+// point-in-polygon test (ray-casting)
+export function pointInPolygon(point: Point, vs: Point[]) {
+    const { x, y } = point;
+    let inside = false;
+    for (let i = 0, j = vs.length - 1; i < vs.length; j = i++) {
+        const xi = vs[i].x, yi = vs[i].y;
+        const xj = vs[j].x, yj = vs[j].y;
+
+        const intersect = ((yi > y) !== (yj > y)) &&
+            (x < ((xj - xi) * (y - yi)) / (yj - yi) + xi);
+        if (intersect) inside = !inside;
+    }
+    return inside;
+}
+
+function rotate(point: Point, degrees: number): Point {
+    if (!degrees) return point;
+    const theta = degrees * (Math.PI / 180);
+    const cos = Math.cos(theta), sin = Math.sin(theta);
+    return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+}
+
+// grid space -> image pixels
+function toWorld(local: Point, layout: GridLayout): Point {
+    const rotated = rotate(local, layout.rotation);
+    return { x: rotated.x + layout.offset.x, y: rotated.y + layout.offset.y };
+}
+
+// image pixels -> grid space
+function toLocal(world: Point, layout: GridLayout): Point {
+    return rotate({ x: world.x - layout.offset.x, y: world.y - layout.offset.y }, -layout.rotation);
+}
+
+export function hexCorners(center: Point, radius: number, orientation: HexOrientation = 'flat', rotation = 0): Point[] {
+    const points: Point[] = [];
+    // flat‑top starts at angle=0° (pointing right), pointy-top at 30°; then 60° steps
+    const start = orientation === 'flat' ? 0 : 30;
+    for (let i = 0; i < 6; i++) {
+        const theta = (start + rotation + i * 60) * (Math.PI / 180);
+        points.push({
+            x: center.x + radius * Math.cos(theta),
+            y: center.y + radius * Math.sin(theta),
+        });
+    }
+    return points;
+}
+
+// grid-space center of an offset coordinate. Flat-top rows start half a hex above
+// the origin, pointy-top columns half a hex left of it.
+function localHexCenter(col: number, row: number, radius: number, orientation: HexOrientation): Point {
+    const short = Math.sqrt(3) * radius;
+    if (orientation === 'pointy') {
+        return {
+            x: -short / 2 + col * short + ((row & 1) ? short / 2 : 0),
+            y: row * 1.5 * radius,
+        };
+    }
+    return {
+        x: col * 1.5 * radius,
+        y: -short / 2 + row * short + ((col & 1) ? short / 2 : 0),
+    };
+}
+
+function offsetToAxial(col: number, row: number, orientation: HexOrientation) {
+    if (orientation === 'pointy') return { q: col - (row - (row & 1)) / 2, r: row };
+    return { q: col, r: row - (col - (col & 1)) / 2 };
+}
+
+function axialToOffset(q: number, r: number, orientation: HexOrientation) {
+    if (orientation === 'pointy') return { col: q + (r - (r & 1)) / 2, row: r };
+    return { col: q, row: r + (q - (q & 1)) / 2 };
+}
+
+// compute every hex covering a width × height area. `miles` is the corner-to-corner size of a hex;
+// `isDrawn` decides from a hex's corners whether it is part of the drawn grid.
+export function computeHexGrid(
+    width: number,
+    height: number,
+    ppm: number,
+    miles: number,
+    isDrawn: (corners: Point[]) => boolean = () => true,
+    layout: GridLayout = DEFAULT_GRID_LAYOUT
+): HexGrid {
+    const radius = (ppm * miles) / 2;
+    const short = Math.sqrt(3) * radius;
+    const hexWidth = layout.orientation === 'flat' ? 2 * radius : short;
+    const hexHeight = layout.orientation === 'flat' ? short : 2 * radius;
+    const cells: HexCell[] = [];
+    const byKey = new Map<string, HexCell>();
+    if (!(radius > 0)) {
+        return { width, height, cells, byKey, minCol: 0, minRow: 0, rowCount: 0, colCount: 0, radius, hexWidth, hexHeight, layout };
+    }
+
+    // bounds of the image in grid space, so offset and rotated grids still cover it
+    const bounds = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: 0, y: height }, { x: width, y: height }]
+        .map(pt => toLocal(pt, layout));
+    const minX = Math.min(...bounds.map(pt => pt.x)), maxX = Math.max(...bounds.map(pt => pt.x));
+    const minY = Math.min(...bounds.map(pt => pt.y)), maxY = Math.max(...bounds.map(pt => pt.y));
+    const colStep = layout.orientation === 'flat' ? 1.5 * radius : short;
+    const rowStep = layout.orientation === 'flat' ? short : 1.5 * radius;
+    const minCol = Math.ceil((minX - hexWidth / 2) / colStep);
+    const maxCol = Math.floor((maxX + hexWidth) / colStep);
+    const minRow = Math.floor(minY / rowStep);
+    const maxRow = Math.ceil((maxY + hexHeight) / rowStep);
+
+    for (let row = minRow; row <= maxRow; row++) {
+        for (let col = minCol; col <= maxCol; col++) {
+            const center = toWorld(localHexCenter(col, row, radius, layout.orientation), layout);
+            const corners = hexCorners(center, radius, layout.orientation, layout.rotation);
+            const { q, r } = offsetToAxial(col, row, layout.orientation);
+            const cell: HexCell = {
+                col, row, q, r, s: -q - r,
+                center,
+                corners,
+                drawn: isDrawn(corners),
+            };
+            cells.push(cell);
+            byKey.set(hexKey(col, row), cell);
+        }
+    }
+    return {
+        width, height, cells, byKey, minCol, minRow,
+        rowCount: maxRow - minRow + 1,
+        colCount: maxCol - minCol + 1,
+        radius, hexWidth, hexHeight, layout,
+    };
+}
+
+// number of hex steps between two hexes
+export function hexDistance(a: HexCell, b: HexCell) {
+    return (Math.abs(a.q - b.q) + Math.abs(a.r - b.r) + Math.abs(a.s - b.s)) / 2;
+}
+
+// find the hex containing a pixel (inverse of localHexCenter via cube rounding)
+export function hexAt(grid: HexGrid, point: Point): HexCell | null {
+    const { radius, layout } = grid;
+    if (!(radius > 0)) return null;
+    const short = Math.sqrt(3) * radius;
+    const local = toLocal(point, layout);
+    let fq: number, fr: number;
+    if (layout.orientation === 'pointy') {
+        const px = local.x + short / 2, py = local.y;
+        fq = (Math.sqrt(3) / 3 * px - 1 / 3 * py) / radius;
+        fr = (2 / 3 * py) / radius;
+    } else {
+        const px = local.x, py = local.y + short / 2;
+        fq = (2 / 3 * px) / radius;
+        fr = (-1 / 3 * px + Math.sqrt(3) / 3 * py) / radius;
+    }
+    const fs = -fq - fr;
+
+    let q = Math.round(fq), r = Math.round(fr);
+    const s = Math.round(fs);
+    const dq = Math.abs(q - fq), dr = Math.abs(r - fr), ds = Math.abs(s - fs);
+    if (dq > dr && dq > ds) q = -r - s;
+    else if (dr > ds) r = -q - s;
+
+    const { col, row } = axialToOffset(q, r, layout.orientation);
+    return grid.byKey.get(hexKey(col, row)) ?? null;
+}
+
+const AXIAL_DIRECTIONS = [
+    { q: 1, r: 0 }, { q: 1, r: -1 }, { q: 0, r: -1 },
+    { q: -1, r: 0 }, { q: -1, r: 1 }, { q: 0, r: 1 },
+];
+
+// the up to six hexes sharing an edge with `cell` (fewer at the grid's edge)
+export function hexNeighbors(grid: HexGrid, cell: HexCell): HexCell[] {
+    return AXIAL_DIRECTIONS
+        .map(dir => {
+            const { col, row } = axialToOffset(cell.q + dir.q, cell.r + dir.r, grid.layout.orientation);
+            return grid.byKey.get(hexKey(col, row));
+        })
+        .filter((neighbor): neighbor is HexCell => !!neighbor);
+}
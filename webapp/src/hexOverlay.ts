@@ -0,0 +1,91 @@
+// The overlay engine without the page: the grids computed from the settings and the full-resolution
+// export rendered from them. The grid worker, the app's exports and the hexoverlay command-line
+// tool all go through here, so they produce the same hexes and the same pixels.
+import {computeHexGrid, type Canvas2D, type GridLayout, type HexGrid} from './hexGrid.ts';
+import type {HexDataMap} from './hexData.ts';
+import {drawGridLayer, type GridLayerStyle} from './gridLayer.ts';
+import {computeSubGrid, type SubGrid} from './nestedGrid.ts';
+import {clipToShownAreas, drawRegionTints, regionGridMask, type CoverageSettings, type Region} from './regions.ts';
+import {drawStamps, type Stamp, type StampImages} from './stamps.ts';
+import {drawTerrainFills, drawTerrainLegend, usedTerrains, type TerrainType} from './terrain.ts';
+
+// pixels of transparent margin around the image on every full-size canvas and export
+export const MAP_PADDING = 100;
+
+// pixels; smaller hexes would flood the grid computation with cells
+export const MIN_HEX_RADIUS = 2;
+
+// whether hexes of `miles` come out big enough to compute at this scale
+export function isHexSizeUsable(pixelsPerMile: number, miles: number) {
+    return pixelsPerMile * miles / 2 >= MIN_HEX_RADIUS;
+}
+
+// everything the grid model depends on; `width` and `height` are the padded map's
+export interface GridParams {
+    width: number;
+    height: number;
+    pixelsPerMile: number;
+    hexMiles: number;
+    // size of the nested sub-hexes; 0 for none
+    subHexMiles: number;
+    layout: GridLayout;
+    regions: Region[];
+    coverage: CoverageSettings;
+}
+
+export interface OverlayGrids {
+    grid: HexGrid;
+    subGrid: SubGrid | null;
+}
+
+export function computeOverlayGrids(params: GridParams): OverlayGrids {
+    const grid = computeHexGrid(params.width, params.height, params.pixelsPerMile, params.hexMiles, regionGridMask(params.regions, params.coverage), params.layout);
+    const subGrid = params.subHexMiles > 0 && params.subHexMiles < params.hexMiles && isHexSizeUsable(params.pixelsPerMile, params.subHexMiles)
+        ? computeSubGrid(grid, params.pixelsPerMile, params.subHexMiles)
+        : null;
+    return { grid, subGrid };
+}
+
+// what the export draws over the map
+export interface OverlayContent {
+    // with region terrain already applied
+    hexData: HexDataMap;
+    terrainPalette: TerrainType[];
+    gridStyle: GridLayerStyle;
+    stamps: Stamp[];
+    stampImages: StampImages;
+    shouldDrawLegend: boolean;
+}
+
+// region tints and terrain fills beneath the grid
+export function drawTerrainLayer(ctx: Canvas2D, grid: HexGrid, hexData: HexDataMap, palette: TerrainType[], regions: Region[], shouldClip: boolean) {
+    drawRegionTints(ctx, grid, regions);
+    drawTerrainFills(ctx, grid, hexData, palette);
+    if (shouldClip) clipToShownAreas(ctx, regions);
+}
+
+// legend of the painted terrains in the bottom-right corner of the image
+export function drawMapLegend(ctx: Canvas2D, hexData: HexDataMap, palette: TerrainType[]) {
+    drawTerrainLegend(ctx, usedTerrains(hexData, palette), ctx.canvas.width - MAP_PADDING - 10, ctx.canvas.height - MAP_PADDING - 10);
+}
+
+// Map, terrain, grid, stamps and legend stacked onto `ctx`, a canvas the size of the padded map. The
+// terrain and grid are drawn on blank canvases of the same size from `blankLayer` first, so that
+// clipping them to the shown areas leaves the map beneath whole.
+export function renderOverlay(ctx: Canvas2D, map: CanvasImageSource, grids: OverlayGrids, content: OverlayContent, blankLayer: () => Canvas2D | null) {
+    const { grid, subGrid } = grids;
+    const { regions, shouldClip } = content.gridStyle;
+    const terrainLayer = blankLayer();
+    const gridLayer = blankLayer();
+    ctx.drawImage(map, 0, 0);
+    if (terrainLayer) {
+        drawTerrainLayer(terrainLayer, grid, content.hexData, content.terrainPalette, regions, shouldClip);
+        ctx.drawImage(terrainLayer.canvas, 0, 0);
+    }
+    if (gridLayer) {
+        drawGridLayer(gridLayer, grid, subGrid, content.gridStyle);
+        ctx.drawImage(gridLayer.canvas, 0, 0);
+    }
+    drawStamps(ctx, grid, content.stamps, content.stampImages);
+    if (content.shouldDrawLegend) drawMapLegend(ctx, content.hexData, content.terrainPalette);
+}
@@ -0,0 +1,114 @@
+// Coordinate labels: numbering schemes, origin and text styling for the hex grid.
+import {hexAt, type Canvas2D, type HexCell, type HexGrid} from './hexGrid.ts';
+
+// offset: "col,row"; axial: "q,r"; cube: "q,r,s"; classic: wargame "0304"; letter-number: "C4"
+export type LabelScheme = 'offset' | 'axial' | 'cube' | 'classic' | 'letter-number';
+// corner counts from the hex at the image's top-left with rows growing downward (1-based for
+// classic and letter-number); center counts from the middle hex with rows growing upward
+export type LabelOrigin = 'corner' | 'center';
+export type LabelPosition = 'center' | 'top' | 'bottom';
+
+export interface LabelStyle {
+    scheme: LabelScheme;
+    origin: LabelOrigin;
+    fontFamily: string;
+    fontSize: number;
+    color: string;
+    // outline drawn behind the text for readability over dark terrain; 0 disables it
+    haloWidth: number;
+    haloColor: string;
+    position: LabelPosition;
+}
+
+export const DEFAULT_LABEL_STYLE: LabelStyle = {
+    scheme: 'offset',
+    origin: 'center',
+    fontFamily: 'sans-serif',
+    fontSize: 24,
+    color: '#000000',
+    haloWidth: 0,
+    haloColor: '#ffffff',
+    position: 'center',
+};
+
+// the hex every label is counted from. `inset` is the padding between the grid's area and the image.
+export function findLabelOrigin(grid: HexGrid, origin: LabelOrigin, inset = 0): HexCell | null {
+    const point = origin === 'corner'
+        ? { x: inset + 1, y: inset + 1 }
+        : { x: grid.width / 2, y: grid.height / 2 };
+    return hexAt(grid, point) ?? grid.cells[0] ?? null;
+}
+
+function pad(value: number, width: number) {
+    return (value < 0 ? '-' : '') + String(Math.abs(value)).padStart(width, '0');
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnLetters(index: number): string {
+    if (index < 0) return '-' + columnLetters(-index - 1);
+    let letters = '';
+    let n = index;
+    do {
+        letters = String.fromCharCode(65 + (n % 26)) + letters;
+        n = Math.floor(n / 26) - 1;
+    } while (n >= 0);
+    return letters;
+}
+
+export function formatHexLabel(grid: HexGrid, cell: HexCell, origin: HexCell, style: LabelStyle): string {
+    const fromCorner = style.origin === 'corner';
+    const col = cell.col - origin.col;
+    const row = fromCorner ? cell.row - origin.row : origin.row - cell.row;
+    const q = cell.q - origin.q;
+    const r = cell.r - origin.r;
+
+    switch (style.scheme) {
+        case 'axial':
+            return `${q},${r}`;
+        case 'cube':
+            return `${q},${r},${-q - r}`;
+        case 'classic': {
+            // two digits per axis unless the grid needs more
+            const width = Math.max(2, String(Math.max(grid.colCount, grid.rowCount)).length);
+            const base = fromCorner ? 1 : 0;
+            return pad(col + base, width) + pad(row + base, width);
+        }
+        case 'letter-number':
+            return `${columnLetters(col)}${fromCorner ? row + 1 : row}`;
+        default:
+            return `${col},${row}`;
+    }
+}
+
+// offset from a hex center to its label. top/bottom sit toward the hex edge
+// along the grid's (possibly rotated) vertical axis.
+export function labelOffset(grid: HexGrid, style: LabelStyle) {
+    const shift = style.position === 'center' ? 0 : (style.position === 'top' ? -1 : 1) * grid.hexHeight * 0.3;
+    const theta = grid.layout.rotation * (Math.PI / 180);
+    return { dx: -shift * Math.sin(theta), dy: shift * Math.cos(theta) };
+}
+
+// draw labels inside the hexes that were drawn, or only those `isLabeled` picks
+export function drawHexLabels(ctx: Canvas2D, grid: HexGrid, style: LabelStyle, inset = 0, isLabeled = (cell: HexCell) => cell.drawn) {
+    const origin = findLabelOrigin(grid, style.origin, inset);
+    if (!origin) return;
+    const { dx, dy } = labelOffset(grid, style);
+
+    ctx.save();
+    ctx.font = `${style.fontSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = style.color;
+    ctx.strokeStyle = style.haloColor;
+    ctx.lineWidth = style.haloWidth * 2;
+    ctx.lineJoin = 'round';
+    grid.cells.forEach(cell => {
+        if (!isLabeled(cell)) return;
+        const text = formatHexLabel(grid, cell, origin, style);
+        const x = cell.center.x + dx;
+        const y = cell.center.y + dy;
+        if (style.haloWidth > 0) ctx.strokeText(text, x, y);
+        ctx.fillText(text, x, y);
+    });
+    ctx.restore();
+}
@@ -0,0 +1,198 @@
+// Magic wand: flood fill from a clicked pixel within a color tolerance, then trace the filled
+// area into a simplified polygon, plus polygons for sizeable holes (islands in a clicked sea).
+import type {Point} from './hexGrid.ts';
+
+export interface WandOptions {
+    // percent of the largest possible RGB distance
+    tolerance: number;
+    // max distance (pixels) the simplified outline may stray from the traced one
+    smoothing: number;
+    // holes smaller than this many square pixels are filled over instead of kept
+    minHoleArea: number;
+}
+
+export const DEFAULT_WAND_OPTIONS: WandOptions = { tolerance: 15, smoothing: 2, minHoleArea: 400 };
+
+export interface WandResult {
+    outline: Point[];
+    holes: Point[][];
+}
+
+const MAX_RGB_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+// 4-connected fill of pixels close enough in color to the seed
+function floodFill(image: ImageData, seedX: number, seedY: number, tolerance: number): Uint8Array {
+    const { width, height, data } = image;
+    const mask = new Uint8Array(width * height);
+    const seed = (seedY * width + seedX) * 4;
+    const [r0, g0, b0] = [data[seed], data[seed + 1], data[seed + 2]];
+    const maxDistanceSq = (tolerance / 100 * MAX_RGB_DISTANCE) ** 2;
+    const matches = (index: number) => {
+        const i = index * 4;
+        const dr = data[i] - r0, dg = data[i + 1] - g0, db = data[i + 2] - b0;
+        return dr * dr + dg * dg + db * db <= maxDistanceSq;
+    };
+
+    const stack = [seedY * width + seedX];
+    mask[stack[0]] = 1;
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width, y = (index - x) / width;
+        const neighbors = [
+            x > 0 ? index - 1 : -1,
+            x < width - 1 ? index + 1 : -1,
+            y > 0 ? index - width : -1,
+            y < height - 1 ? index + width : -1,
+        ];
+        neighbors.forEach(next => {
+            if (next < 0 || mask[next] || !matches(next)) return;
+            mask[next] = 1;
+            stack.push(next);
+        });
+    }
+    return mask;
+}
+
+// clockwise from west, in screen coordinates
+const MOORE = [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+
+// Moore-neighbor trace of the outer boundary of the component holding `start`, which must be
+// its first pixel in raster order. Returns pixel centers in order.
+function traceBoundary(mask: Uint8Array, width: number, height: number, start: number, value: number): Point[] {
+    const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === value;
+    const sx = start % width, sy = (start - sx) / width;
+    const points: Point[] = [{ x: sx + 0.5, y: sy + 0.5 }];
+    let x = sx, y = sy;
+    // we arrived at the start from the west, which is outside by construction
+    let backtrack = 0;
+    let first: number | null = null;
+    for (;;) {
+        let found = -1;
+        for (let i = 0; i < 8; i++) {
+            const dir = (backtrack + i) % 8;
+            if (inside(x + MOORE[dir][0], y + MOORE[dir][1])) {
+                found = dir;
+                break;
+            }
+        }
+        if (found < 0) return points;
+        const nx = x + MOORE[found][0], ny = y + MOORE[found][1];
+        const next = ny * width + nx;
+        // Jacob's stopping criterion: back at the start about to repeat the first step
+        if (x === sx && y === sy) {
+            if (first === null) first = next;
+            else if (next === first) return points;
+        }
+        x = nx;
+        y = ny;
+        points.push({ x: x + 0.5, y: y + 0.5 });
+        // resume the sweep from the neighbor just before the one we came from
+        backtrack = (found + 6) % 8;
+    }
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point) {
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return Math.hypot(point.x - a.x, point.y - a.y);
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+    return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+// Douglas-Peucker, iterative so long coastlines don't overflow the call stack
+export function simplifyPath(points: Point[], epsilon: number): Point[] {
+    if (points.length < 3) return points;
+    const keep = new Uint8Array(points.length);
+    keep[0] = keep[points.length - 1] = 1;
+    const ranges: [number, number][] = [[0, points.length - 1]];
+    while (ranges.length > 0) {
+        const [from, to] = ranges.pop()!;
+        let farthest = -1, maxDistance = epsilon;
+        for (let i = from + 1; i < to; i++) {
+            const distance = distanceToSegment(points[i], points[from], points[to]);
+            if (distance > maxDistance) {
+                farthest = i;
+                maxDistance = distance;
+            }
+        }
+        if (farthest < 0) continue;
+        keep[farthest] = 1;
+        ranges.push([from, farthest], [farthest, to]);
+    }
+    return points.filter((_, i) => keep[i]);
+}
+
+// a closed outline split at its far point, so Douglas-Peucker has two distinct ends to work from
+function simplifyClosed(points: Point[], epsilon: number): Point[] {
+    if (points.length < 4) return points;
+    let far = 0, farDistance = 0;
+    points.forEach((pt, i) => {
+        const distance = Math.hypot(pt.x - points[0].x, pt.y - points[0].y);
+        if (distance > farDistance) {
+            far = i;
+            farDistance = distance;
+        }
+    });
+    const first = simplifyPath(points.slice(0, far + 1), epsilon);
+    const second = simplifyPath([...points.slice(far), points[0]], epsilon);
+    return [...first, ...second.slice(1, -1)];
+}
+
+// Everything reachable from the seed within tolerance, as image-pixel polygons. null when the
+// seed is outside the image or the area is too small to make a polygon.
+export function wandSelect(image: ImageData, seed: Point, options: WandOptions): WandResult | null {
+    const { width, height } = image;
+    const seedX = Math.floor(seed.x), seedY = Math.floor(seed.y);
+    if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return null;
+
+    const mask = floodFill(image, seedX, seedY, options.tolerance);
+    const start = mask.indexOf(1);
+    const outline = simplifyClosed(traceBoundary(mask, width, height, start, 1), options.smoothing);
+    if (outline.length < 3) return null;
+
+    // background reachable from the image edge (8-connected, pairing with the 4-connected fill);
+    // whatever background is left over is enclosed by the filled area
+    const OUTSIDE = 2;
+    const stack: number[] = [];
+    for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+    for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        if (mask[index] !== 0) continue;
+        mask[index] = OUTSIDE;
+        const x = index % width, y = (index - x) / width;
+        for (const [dx, dy] of MOORE) {
+            const nx = x + dx, ny = y + dy;
+            if (nx >= 0 && ny >= 0 && nx < width && ny < height && mask[ny * width + nx] === 0) stack.push(ny * width + nx);
+        }
+    }
+
+    const HOLE = 3, DONE = 4;
+    const holes: Point[][] = [];
+    for (let index = 0; index < mask.length; index++) {
+        if (mask[index] !== 0) continue;
+        // collect one enclosed component, trace it, then retire it
+        const component: number[] = [];
+        const pending = [index];
+        mask[index] = HOLE;
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            component.push(current);
+            const x = current % width, y = (current - x) / width;
+            for (const [dx, dy] of MOORE) {
+                const nx = x + dx, ny = y + dy;
+                const next = ny * width + nx;
+                if (nx >= 0 && ny >= 0 && nx < width && ny < height && mask[next] === 0) {
+                    mask[next] = HOLE;
+                    pending.push(next);
+                }
+            }
+        }
+        if (component.length >= options.minHoleArea) {
+            const hole = simplifyClosed(traceBoundary(mask, width, height, index, HOLE), options.smoothing);
+            if (hole.length >= 3) holes.push(hole);
+        }
+        component.forEach(i => { mask[i] = DONE; });
+    }
+    return { outline, holes };
+}
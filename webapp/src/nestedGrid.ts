@@ -0,0 +1,83 @@
+// Nested grids: a finer grid of sub-hexes (e.g. 6-mile hexes inside 30-mile ones) laid over the
+// main grid. Both share the main grid's layout, and a sub-hex belongs to the large hex its center
+// falls in, so every sub-hex has exactly one parent.
+import {computeHexGrid, hexAt, hexKey, type Canvas2D, type HexCell, type HexGrid, type Point} from './hexGrid.ts';
+import type {Rect} from './viewport.ts';
+
+export interface SubGrid {
+    grid: HexGrid;
+    // large hex key -> keys of its sub-hexes, in row order
+    children: Map<string, string[]>;
+    // sub-hex key -> large hex key
+    parents: Map<string, string>;
+}
+
+// sub-hex sizes offered under a main hex size
+export const SUB_HEX_MILES = [6, 3, 2, 1];
+
+function centroid(points: Point[]): Point {
+    return {
+        x: points.reduce((sum, pt) => sum + pt.x, 0) / points.length,
+        y: points.reduce((sum, pt) => sum + pt.y, 0) / points.length,
+    };
+}
+
+// Sub-hexes of `miles` across over the main grid. A sub-hex is drawn when its large hex is.
+export function computeSubGrid(parent: HexGrid, ppm: number, miles: number): SubGrid {
+    const grid = computeHexGrid(parent.width, parent.height, ppm, miles,
+        corners => !!hexAt(parent, centroid(corners))?.drawn, parent.layout);
+    const children = new Map<string, string[]>();
+    const parents = new Map<string, string>();
+    grid.byKey.forEach((cell, key) => {
+        const large = hexAt(parent, cell.center);
+        if (!large) return;
+        const parentKey = hexKey(large.col, large.row);
+        parents.set(key, parentKey);
+        const siblings = children.get(parentKey);
+        if (siblings) siblings.push(key);
+        else children.set(parentKey, [key]);
+    });
+    return { grid, children, parents };
+}
+
+export function subHexesOf(subGrid: SubGrid, parentKey: string): HexCell[] {
+    return (subGrid.children.get(parentKey) ?? []).map(key => subGrid.grid.byKey.get(key)!);
+}
+
+// axis-aligned bounds of a hex, for framing it in the view or cropping it out
+export function cellBounds(cell: HexCell): Rect {
+    const xs = cell.corners.map(pt => pt.x), ys = cell.corners.map(pt => pt.y);
+    const x = Math.min(...xs), y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function tracePath(ctx: Canvas2D, points: Point[]) {
+    points.forEach((pt, i) => {
+        if (i === 0) ctx.moveTo(pt.x, pt.y);
+        else ctx.lineTo(pt.x, pt.y);
+    });
+    ctx.closePath();
+}
+
+// Dim `area` outside the large hex being viewed as a sub-map
+export function dimOutsideHex(ctx: Canvas2D, cell: HexCell, area: Rect) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.beginPath();
+    ctx.rect(area.x, area.y, area.width, area.height);
+    tracePath(ctx, cell.corners);
+    ctx.fill('evenodd');
+}
+
+// number the sub-hexes 1..n in row order, the way a sub-map's keyed entries refer to them
+export function drawSubHexNumbers(ctx: Canvas2D, cells: HexCell[], radius: number) {
+    ctx.font = `bold ${Math.max(1, radius * 0.6)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = Math.max(1, radius * 0.12);
+    ctx.strokeStyle = 'white';
+    ctx.fillStyle = 'black';
+    cells.forEach((cell, i) => {
+        ctx.strokeText(String(i + 1), cell.center.x, cell.center.y);
+        ctx.fillText(String(i + 1), cell.center.x, cell.center.y);
+    });
+}
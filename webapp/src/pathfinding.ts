@@ -0,0 +1,135 @@
+// Hex ruler: straight-line hex distance plus a cheapest route between two hexes.
+import {hexDistance, hexKey, hexNeighbors, type HexCell, type HexGrid} from './hexGrid.ts';
+
+export interface PathOptions {
+    // cost of stepping into a hex; 1 everywhere measures plain hex steps
+    stepCost: (cell: HexCell) => number;
+    // route around hexes masked out by the exclusion polygons
+    avoidMasked: boolean;
+}
+
+export interface HexPath {
+    // start and end included
+    cells: HexCell[];
+    cost: number;
+}
+
+// minimal binary heap ordered by priority, enough for A* over a few thousand hexes
+class PriorityQueue<T> {
+    private items: { item: T; priority: number }[] = [];
+
+    get size() {
+        return this.items.length;
+    }
+
+    push(item: T, priority: number) {
+        const items = this.items;
+        items.push({ item, priority });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].priority <= items[i].priority) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0 && last) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1, right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+                if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top?.item;
+    }
+}
+
+// A* over the grid's hexes. Returns null when the end can't be reached.
+export function findHexPath(grid: HexGrid, start: HexCell, end: HexCell, options: PathOptions): HexPath | null {
+    const passable = (cell: HexCell) => cell.drawn || !options.avoidMasked;
+    if (!passable(start) || !passable(end)) return null;
+
+    // the cheapest step keeps the distance heuristic admissible when some terrain costs < 1
+    const minStep = grid.cells.reduce((min, cell) => passable(cell) ? Math.min(min, options.stepCost(cell)) : min, Infinity);
+    const startKey = hexKey(start.col, start.row);
+    const endKey = hexKey(end.col, end.row);
+    const costSoFar = new Map<string, number>([[startKey, 0]]);
+    const cameFrom = new Map<string, HexCell>();
+    const frontier = new PriorityQueue<HexCell>();
+    frontier.push(start, 0);
+
+    while (frontier.size > 0) {
+        const current = frontier.pop()!;
+        const currentKey = hexKey(current.col, current.row);
+        if (currentKey === endKey) break;
+        const currentCost = costSoFar.get(currentKey)!;
+        hexNeighbors(grid, current).forEach(next => {
+            if (!passable(next)) return;
+            const nextKey = hexKey(next.col, next.row);
+            const cost = currentCost + options.stepCost(next);
+            const known = costSoFar.get(nextKey);
+            if (known !== undefined && known <= cost) return;
+            costSoFar.set(nextKey, cost);
+            cameFrom.set(nextKey, current);
+            frontier.push(next, cost + hexDistance(next, end) * minStep);
+        });
+    }
+
+    const cost = costSoFar.get(endKey);
+    if (cost === undefined) return null;
+    const cells = [end];
+    let key = endKey;
+    while (key !== startKey) {
+        const previous = cameFrom.get(key)!;
+        cells.unshift(previous);
+        key = hexKey(previous.col, previous.row);
+    }
+    return { cells, cost };
+}
+
+// Route highlight: tinted hexes along the path, a line through their centers and end markers.
+// The line and markers keep their screen size at any `zoom`.
+export function drawHexPath(ctx: CanvasRenderingContext2D, endpoints: HexCell[], path: HexPath | null, zoom: number) {
+    ctx.save();
+    ctx.fillStyle = 'rgba(255, 140, 0, 0.35)';
+    path?.cells.forEach(cell => {
+        ctx.beginPath();
+        cell.corners.forEach((pt, i) => {
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
+        });
+        ctx.closePath();
+        ctx.fill();
+    });
+    if (path && path.cells.length > 1) {
+        ctx.strokeStyle = 'darkorange';
+        ctx.lineWidth = 3 / zoom;
+        ctx.beginPath();
+        path.cells.forEach(({ center }, i) => {
+            if (i === 0) ctx.moveTo(center.x, center.y);
+            else ctx.lineTo(center.x, center.y);
+        });
+        ctx.stroke();
+    }
+    ctx.fillStyle = 'darkorange';
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 2 / zoom;
+    endpoints.forEach(({ center }) => {
+        ctx.beginPath();
+        ctx.arc(center.x, center.y, 6 / zoom, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+    });
+    ctx.restore();
+}
@@ -0,0 +1,75 @@
+// Minimal PDF writer: one JPEG image per page plus optional vector drawing operators.
+// Enough for print handouts without pulling in a PDF library.
+
+export interface PdfPage {
+    // page size in points (1/72 inch)
+    width: number;
+    height: number;
+    jpeg: Uint8Array;
+    imageWidth: number;
+    imageHeight: number;
+    // where the image is placed, in points from the bottom-left of the page
+    imageBox: { x: number; y: number; width: number; height: number };
+    // extra content stream operators drawn over the image; font /F1 is Helvetica
+    overlay: string;
+}
+
+const encoder = new TextEncoder();
+
+// PDF string literal escaping
+export function pdfText(text: string) {
+    return `(${text.replace(/[\\()]/g, c => '\\' + c)})`;
+}
+
+export function buildPdf(pages: PdfPage[]): Blob {
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const startObject = (id: number) => {
+        offsets[id] = length;
+        push(`${id} 0 obj\n`);
+    };
+
+    // object ids: 1 catalog, 2 page tree, 3 font, then (page, content, image) per page
+    const pageId = (i: number) => 4 + i * 3;
+    push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    startObject(1);
+    push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    push(`<< /Type /Pages /Count ${pages.length} /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] >>\nendobj\n`);
+    startObject(3);
+    push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj\n');
+
+    pages.forEach((page, i) => {
+        const id = pageId(i);
+        const { x, y, width, height } = page.imageBox;
+        const content = `q ${width} 0 0 ${height} ${x} ${y} cm /Im1 Do Q\n${page.overlay}`;
+
+        startObject(id);
+        push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+            `/Resources << /Font << /F1 3 0 R >> /XObject << /Im1 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+        startObject(id + 1);
+        push(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+        startObject(id + 2);
+        push(`<< /Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} ` +
+            `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        push(page.jpeg);
+        push('\nendstream\nendobj\n');
+    });
+
+    const objectCount = pageId(pages.length);
+    const xrefOffset = length;
+    push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+}
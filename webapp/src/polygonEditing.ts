@@ -0,0 +1,86 @@
+// Vertex-level polygon edits and the undo/redo history for the polygon tools.
+// Edits never mutate: each returns a new polygon, so the old one can be swapped out by identity.
+import type {Point} from './hexGrid.ts';
+import type {Region} from './regions.ts';
+
+export interface VertexHit { polygon: number; vertex: number }
+
+// `vertex` is the index of the edge's first point; a new vertex goes in after it
+export interface EdgeHit { polygon: number; vertex: number; point: Point }
+
+export function findVertex(polygons: Point[][], point: Point, tolerance: number): VertexHit | null {
+    for (let polygon = polygons.length - 1; polygon >= 0; polygon--) {
+        const vertex = polygons[polygon].findIndex(pt => Math.hypot(pt.x - point.x, pt.y - point.y) <= tolerance);
+        if (vertex > -1) return { polygon, vertex };
+    }
+    return null;
+}
+
+function closestOnSegment(point: Point, a: Point, b: Point): Point {
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+    return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+export function findEdge(polygons: Point[][], point: Point, tolerance: number): EdgeHit | null {
+    for (let polygon = polygons.length - 1; polygon >= 0; polygon--) {
+        const pts = polygons[polygon];
+        for (let vertex = 0; vertex < pts.length; vertex++) {
+            const closest = closestOnSegment(point, pts[vertex], pts[(vertex + 1) % pts.length]);
+            if (Math.hypot(closest.x - point.x, closest.y - point.y) <= tolerance) return { polygon, vertex, point: closest };
+        }
+    }
+    return null;
+}
+
+export function moveVertex(polygon: Point[], vertex: number, point: Point): Point[] {
+    return polygon.map((pt, i) => i === vertex ? point : pt);
+}
+
+export function insertVertex(polygon: Point[], after: number, point: Point): Point[] {
+    return [...polygon.slice(0, after + 1), point, ...polygon.slice(after + 1)];
+}
+
+// null when removing the vertex would leave fewer than three
+export function removeVertex(polygon: Point[], vertex: number): Point[] | null {
+    if (polygon.length <= 3) return null;
+    return polygon.filter((_, i) => i !== vertex);
+}
+
+export function translatePolygon(polygon: Point[], dx: number, dy: number): Point[] {
+    return polygon.map(pt => ({ x: pt.x + dx, y: pt.y + dy }));
+}
+
+// everything an undo step restores: the polygon being drawn, the region stack and the selection
+export interface PolygonSnapshot {
+    vertices: Point[];
+    regions: Region[];
+    selectedRegion: string | null;
+}
+
+export interface EditHistory {
+    past: PolygonSnapshot[];
+    future: PolygonSnapshot[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const MAX_HISTORY = 200;
+
+// call with the state from just before an edit; a new edit drops the redo stack
+export function recordSnapshot(history: EditHistory, snapshot: PolygonSnapshot): EditHistory {
+    return { past: [...history.past, snapshot].slice(-MAX_HISTORY), future: [] };
+}
+
+export function undoSnapshot(history: EditHistory, current: PolygonSnapshot): { history: EditHistory; snapshot: PolygonSnapshot } | null {
+    const snapshot = history.past[history.past.length - 1];
+    if (!snapshot) return null;
+    return { history: { past: history.past.slice(0, -1), future: [current, ...history.future] }, snapshot };
+}
+
+export function redoSnapshot(history: EditHistory, current: PolygonSnapshot): { history: EditHistory; snapshot: PolygonSnapshot } | null {
+    const snapshot = history.future[0];
+    if (!snapshot) return null;
+    return { history: { past: [...history.past, current], future: history.future.slice(1) }, snapshot };
+}
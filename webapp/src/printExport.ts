@@ -0,0 +1,159 @@
+// Tiled print export: splits the hexed map over letter/A4 pages at a real-world hex size,
+// with overlap for taping, crop marks and "A1, A2, …" page labels.
+import {buildPdf, pdfText, type PdfPage} from './pdf.ts';
+import type {HexGrid} from './hexGrid.ts';
+import {hiddenAreaMask, type Region} from './regions.ts';
+
+export type PaperSize = 'letter' | 'a4';
+export type PrintUnit = 'in' | 'cm';
+
+export interface PrintOptions {
+    paper: PaperSize;
+    unit: PrintUnit;
+    // printed distance across the flats of one hex
+    hexSize: number;
+    // how far each page repeats the edge of its neighbour
+    overlap: number;
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { paper: 'letter', unit: 'in', hexSize: 1, overlap: 0.5 };
+
+// portrait page sizes in points
+const PAPER_POINTS: Record<PaperSize, { width: number; height: number }> = {
+    letter: { width: 612, height: 792 },
+    a4: { width: 595.28, height: 841.89 },
+};
+
+const POINTS_PER_UNIT: Record<PrintUnit, number> = { in: 72, cm: 72 / 2.54 };
+const PAGE_MARGIN = 36; // points of unprinted border, room for crop marks and labels
+const PRINT_DPI = 150;
+const CROP_MARK = 12; // points
+
+export interface PrintRegion { x: number; y: number; width: number; height: number }
+
+export interface PrintLayout {
+    columns: number;
+    rows: number;
+    // source pixels per point
+    pixelsPerPoint: number;
+    // source pixel step between page origins
+    stepX: number;
+    stepY: number;
+    // source pixels covered by one page's printable area
+    tileWidth: number;
+    tileHeight: number;
+}
+
+// A, B, … Z, AA, AB, …
+function rowLetters(index: number): string {
+    const letter = String.fromCharCode(65 + (index % 26));
+    return index < 26 ? letter : rowLetters(Math.floor(index / 26) - 1) + letter;
+}
+
+export function computePrintLayout(grid: HexGrid, region: PrintRegion, options: PrintOptions): PrintLayout | null {
+    const hexAcrossFlats = Math.sqrt(3) * grid.radius;
+    const hexPoints = options.hexSize * POINTS_PER_UNIT[options.unit];
+    if (!(hexAcrossFlats > 0) || !(hexPoints > 0)) return null;
+    const pixelsPerPoint = hexAcrossFlats / hexPoints;
+
+    const paper = PAPER_POINTS[options.paper];
+    const tileWidth = (paper.width - PAGE_MARGIN * 2) * pixelsPerPoint;
+    const tileHeight = (paper.height - PAGE_MARGIN * 2) * pixelsPerPoint;
+    const overlap = Math.max(0, options.overlap * POINTS_PER_UNIT[options.unit] * pixelsPerPoint);
+    const stepX = tileWidth - overlap;
+    const stepY = tileHeight - overlap;
+    if (stepX <= 0 || stepY <= 0) return null;
+
+    return {
+        columns: Math.max(1, Math.ceil((region.width - overlap) / stepX)),
+        rows: Math.max(1, Math.ceil((region.height - overlap) / stepY)),
+        pixelsPerPoint, stepX, stepY, tileWidth, tileHeight,
+    };
+}
+
+// paint masked-out areas white
+export function blankMaskedAreas(ctx: CanvasRenderingContext2D, regions: Region[]) {
+    const mask = hiddenAreaMask(regions, ctx.canvas.width, ctx.canvas.height);
+    if (mask) ctx.drawImage(mask, 0, 0);
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) return reject(new Error('Could not encode page image'));
+            blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+        }, 'image/jpeg', 0.92);
+    });
+}
+
+// L-shaped marks just outside each corner of the printed area, plus a dashed line where the next page overlaps
+function pageOverlay(label: string, total: string, box: PrintRegion, overlapX: number, overlapY: number) {
+    const { x, y, width, height } = box;
+    const marks = [
+        [x, y, -1, -1], [x + width, y, 1, -1], [x, y + height, -1, 1], [x + width, y + height, 1, 1],
+    ].map(([cx, cy, dx, dy]) =>
+        `${cx + dx * 3} ${cy} m ${cx + dx * (3 + CROP_MARK)} ${cy} l ${cx} ${cy + dy * 3} m ${cx} ${cy + dy * (3 + CROP_MARK)} l S`
+    ).join('\n');
+    const overlapLines = [
+        overlapX > 0 ? `${x + width - overlapX} ${y} m ${x + width - overlapX} ${y + height} l S` : '',
+        overlapY > 0 ? `${x} ${y + overlapY} m ${x + width} ${y + overlapY} l S` : '',
+    ].join('\n');
+    return [
+        '0 0 0 RG 0.5 w',
+        marks,
+        'q [4 4] 0 d 0.5 0.5 0.5 RG',
+        overlapLines,
+        'Q',
+        `BT /F1 14 Tf ${x} ${y + height + 12} Td ${pdfText(label)} Tj ET`,
+        `BT /F1 8 Tf ${x + width - 90} ${y + height + 12} Td ${pdfText(total)} Tj ET`,
+    ].join('\n');
+}
+
+// `source` holds the composited map; `region` is the part of it to print (usually the image without padding)
+export async function buildTiledPdf(source: HTMLCanvasElement, region: PrintRegion, layout: PrintLayout, options: PrintOptions): Promise<Blob> {
+    const paper = PAPER_POINTS[options.paper];
+    const pointsToPixels = PRINT_DPI / 72;
+    const pages: PdfPage[] = [];
+
+    for (let row = 0; row < layout.rows; row++) {
+        for (let col = 0; col < layout.columns; col++) {
+            const sx = region.x + col * layout.stepX;
+            const sy = region.y + row * layout.stepY;
+            // the last row/column only prints as far as the map goes
+            const sw = Math.min(layout.tileWidth, region.x + region.width - sx);
+            const sh = Math.min(layout.tileHeight, region.y + region.height - sy);
+            const boxWidth = sw / layout.pixelsPerPoint;
+            const boxHeight = sh / layout.pixelsPerPoint;
+
+            const tile = document.createElement('canvas');
+            tile.width = Math.max(1, Math.round(boxWidth * pointsToPixels));
+            tile.height = Math.max(1, Math.round(boxHeight * pointsToPixels));
+            const ctx = tile.getContext('2d');
+            if (!ctx) throw new Error('Canvas is not available');
+            ctx.fillStyle = 'white';
+            ctx.fillRect(0, 0, tile.width, tile.height);
+            ctx.drawImage(source, sx, sy, sw, sh, 0, 0, tile.width, tile.height);
+
+            // PDF y runs up from the bottom; keep the printed area pinned to the top-left margin
+            const box = { x: PAGE_MARGIN, y: paper.height - PAGE_MARGIN - boxHeight, width: boxWidth, height: boxHeight };
+            const overlapPoints = (layout.tileWidth - layout.stepX) / layout.pixelsPerPoint;
+            const label = `${rowLetters(row)}${col + 1}`;
+            pages.push({
+                width: paper.width,
+                height: paper.height,
+                jpeg: await canvasToJpeg(tile),
+                imageWidth: tile.width,
+                imageHeight: tile.height,
+                imageBox: box,
+                overlay: pageOverlay(
+                    label,
+                    `${layout.rows} rows x ${layout.columns} columns`,
+                    box,
+                    col < layout.columns - 1 ? overlapPoints : 0,
+                    row < layout.rows - 1 ? overlapPoints : 0,
+                ),
+            });
+        }
+    }
+    return buildPdf(pages);
+}
@@ -0,0 +1,182 @@
+// Versioned project file: everything needed to reopen a map where it was left.
+import type {HexDataMap} from './hexData.ts';
+import {DEFAULT_GRID_LAYOUT, type GridLayout, type Point} from './hexGrid.ts';
+import {DEFAULT_GRID_STYLE, DEFAULT_SUB_GRID_STYLE, toHexColor, type GridLineStyle} from './gridStyle.ts';
+import {DEFAULT_LABEL_STYLE, type LabelStyle} from './labels.ts';
+import {DEFAULT_TERRAIN_COST, DEFAULT_TERRAIN_PALETTE, type TerrainType} from './terrain.ts';
+import {DEFAULT_ROLL_SETTINGS, type RollSettings, type RollTable} from './rollTables.ts';
+import {DEFAULT_COVERAGE, type CoverageSettings, type Region} from './regions.ts';
+import type {Stamp, StampIcon} from './stamps.ts';
+import {DEFAULT_TRAVEL_SETTINGS, EMPTY_PARTY, type PartyState, type TravelSettings} from './travel.ts';
+
+export const PROJECT_VERSION = 4;
+
+// the source image is either embedded as a data URL or only referenced by file name
+export interface ProjectImage {
+    name: string;
+    type: string;
+    dataUrl?: string;
+}
+
+export interface ProjectSettings {
+    pixelsPerMile: number;
+    hexMiles: number;
+    // nested sub-hex size; 0 for none
+    subHexMiles: number;
+    gridStyle: GridLineStyle;
+    subGridStyle: GridLineStyle;
+    shouldDrawCoordinates: boolean;
+    shouldDrawLegend: boolean;
+    gridLayout: GridLayout;
+    labelStyle: LabelStyle;
+    coverage: CoverageSettings;
+}
+
+export interface Project {
+    version: number;
+    image: ProjectImage | null;
+    settings: ProjectSettings;
+    // bottom of the layer stack first
+    regions: Region[];
+    hexData: HexDataMap;
+    terrainPalette: TerrainType[];
+    // hex keys the players can see
+    revealedHexes: string[];
+    party: PartyState;
+    travelSettings: TravelSettings;
+    rollTables: RollTable[];
+    rollSettings: RollSettings;
+    // bottom of the stack first
+    stamps: Stamp[];
+    // uploaded icons the stamps can use
+    stampIcons: StampIcon[];
+}
+
+export const DEFAULT_SETTINGS: ProjectSettings = {
+    pixelsPerMile: 22.56,
+    hexMiles: 6,
+    subHexMiles: 0,
+    gridStyle: DEFAULT_GRID_STYLE,
+    subGridStyle: DEFAULT_SUB_GRID_STYLE,
+    shouldDrawCoordinates: false,
+    shouldDrawLegend: true,
+    gridLayout: DEFAULT_GRID_LAYOUT,
+    labelStyle: DEFAULT_LABEL_STYLE,
+    coverage: DEFAULT_COVERAGE,
+};
+
+type RawProject = Record<string, unknown> & { version: number };
+
+// MIGRATIONS[n] upgrades a version n project to version n + 1.
+// Add an entry here (and bump PROJECT_VERSION) whenever the format changes shape.
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+    // v2: terrains gained a movement cost
+    1: project => ({
+        ...project,
+        terrainPalette: (project.terrainPalette as Omit<TerrainType, 'cost'>[] | undefined)?.map(terrain => ({
+            ...terrain,
+            cost: DEFAULT_TERRAIN_PALETTE.find(t => t.name === terrain.name)?.cost ?? DEFAULT_TERRAIN_COST,
+        })),
+    }),
+    // v3: the mask polygons and the selected ("inverted") ones that re-include areas became named
+    // regions. Masks go at the bottom with the re-included areas stacked above, as they behaved before.
+    2: project => {
+        const polygons = (project.polygons as Point[][] | undefined) ?? [];
+        const selected = new Set((project.selectedPolygons as number[] | undefined) ?? []);
+        const ids = polygons.map(() => crypto.randomUUID());
+        const order = [...polygons.keys()].sort((a, b) => Number(selected.has(a)) - Number(selected.has(b)));
+        const regions: Region[] = order.map(i => ({
+            id: ids[i],
+            name: `${selected.has(i) ? 'Include' : 'Mask'} ${i + 1}`,
+            polygon: polygons[i],
+            visible: true,
+            grid: selected.has(i) ? 'show' : 'hide',
+            labels: 'inherit',
+            tint: '',
+            terrain: '',
+        }));
+        // roll tables pointed at polygons by index
+        const rollTables = (project.rollTables as (Omit<RollTable, 'region'> & { region: number | null })[] | undefined)
+            ?.map(table => ({ ...table, region: table.region === null ? null : ids[table.region] ?? null }));
+        const next: RawProject = { ...project, regions, rollTables };
+        delete next.polygons;
+        delete next.selectedPolygons;
+        return next;
+    },
+    // v4: the free-text outline colors became grid line styles; colors that don't parse get the default
+    3: project => {
+        const { outlineColor, subOutlineColor, ...settings } = (project.settings ?? {}) as Record<string, unknown>;
+        const styleFrom = (color: unknown, defaults: GridLineStyle) =>
+            ({ ...defaults, color: (typeof color === 'string' && toHexColor(color)) || defaults.color });
+        return {
+            ...project,
+            settings: {
+                ...settings,
+                gridStyle: styleFrom(outlineColor, DEFAULT_GRID_STYLE),
+                subGridStyle: styleFrom(subOutlineColor, DEFAULT_SUB_GRID_STYLE),
+            },
+        };
+    },
+};
+
+export class ProjectFormatError extends Error {}
+
+function migrateProject(raw: RawProject): RawProject {
+    let project = raw;
+    while (project.version < PROJECT_VERSION) {
+        const migrate = MIGRATIONS[project.version];
+        if (!migrate) throw new ProjectFormatError(`No migration from project version ${project.version}`);
+        project = { ...migrate(project), version: project.version + 1 };
+    }
+    return project;
+}
+
+// Validate and upgrade parsed JSON into a current Project. Missing fields fall back to defaults.
+export function parseProject(json: unknown): Project {
+    if (!json || typeof json !== 'object' || typeof (json as RawProject).version !== 'number') {
+        throw new ProjectFormatError('Not a hex overlay project file');
+    }
+    if ((json as RawProject).version > PROJECT_VERSION) {
+        throw new ProjectFormatError(`Project version ${(json as RawProject).version} is newer than this app supports`);
+    }
+    const project = migrateProject(json as RawProject) as Partial<Project>;
+    return {
+        version: PROJECT_VERSION,
+        image: project.image ?? null,
+        settings: { ...DEFAULT_SETTINGS, ...project.settings },
+        regions: project.regions ?? [],
+        hexData: project.hexData ?? {},
+        terrainPalette: project.terrainPalette ?? DEFAULT_TERRAIN_PALETTE,
+        revealedHexes: project.revealedHexes ?? [],
+        party: project.party ?? EMPTY_PARTY,
+        travelSettings: { ...DEFAULT_TRAVEL_SETTINGS, ...project.travelSettings },
+        rollTables: project.rollTables ?? [],
+        rollSettings: { ...DEFAULT_ROLL_SETTINGS, ...project.rollSettings },
+        stamps: project.stamps ?? [],
+        stampIcons: project.stampIcons ?? [],
+    };
+}
+
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+export async function projectImageFromFile(file: File, embed: boolean): Promise<ProjectImage> {
+    return {
+        name: file.name,
+        type: file.type,
+        dataUrl: embed ? await readFileAsDataUrl(file) : undefined,
+    };
+}
+
+// turn an embedded image back into a File; referenced-only images return null
+export async function projectImageToFile(image: ProjectImage | null): Promise<File | null> {
+    if (!image || !image.dataUrl) return null;
+    const blob = await (await fetch(image.dataUrl)).blob();
+    return new File([blob], image.name, { type: image.type || blob.type });
+}
@@ -0,0 +1,54 @@
+// IndexedDB autosave so a half-finished map survives closing the tab.
+import type {Project} from './project.ts';
+
+const DB_NAME = 'hex-overlay';
+const STORE_NAME = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+const AUTOSAVE_IMAGE_KEY = 'autosave-image';
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+// The project only names its image; the image itself is stored once, by saveAutosaveImage, so
+// edits don't re-encode and rewrite the whole map every time
+export function saveAutosave(project: Project): Promise<IDBValidKey> {
+    return withStore('readwrite', store => store.put(project, AUTOSAVE_KEY));
+}
+
+export function saveAutosaveImage(image: File): Promise<IDBValidKey> {
+    return withStore('readwrite', store => store.put(image, AUTOSAVE_IMAGE_KEY));
+}
+
+// raw stored value; run it through parseProject since it may predate the current version
+export function loadAutosave(): Promise<unknown> {
+    return withStore('readonly', store => store.get(AUTOSAVE_KEY));
+}
+
+// the autosaved image, or undefined if there is none (older autosaves embed it in the project)
+export function loadAutosaveImage(): Promise<File | undefined> {
+    return withStore('readonly', store => store.get(AUTOSAVE_IMAGE_KEY));
+}
+
+// the store holds nothing but the autosave, so empty it
+export function clearAutosave(): Promise<undefined> {
+    return withStore('readwrite', store => store.clear());
+}
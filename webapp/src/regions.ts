@@ -0,0 +1,261 @@
+// Named map regions in an ordered layer stack. Later regions sit on top, and for each rule
+// the topmost visible region with an opinion about a point decides it.
+import {EMPTY_HEX_DATA, type HexDataMap} from './hexData.ts';
+import {hexKey, pointInPolygon, type Canvas2D, type HexCell, type HexGrid, type Point} from './hexGrid.ts';
+
+// 'inherit' leaves the decision to the regions underneath
+export type RegionRule = 'inherit' | 'hide' | 'show';
+
+export interface Region {
+    id: string;
+    name: string;
+    polygon: Point[];
+    // hidden regions are neither drawn nor applied
+    visible: boolean;
+    grid: RegionRule;
+    labels: RegionRule;
+    // '' for no tint
+    tint: string;
+    // terrain for hexes in the region that weren't painted; '' for none
+    terrain: string;
+}
+
+export const REGION_TINT_ALPHA = 0.3;
+
+// how much of a hex must be outside hidden areas for it to be drawn
+export type CoverageRule = 'all-corners' | 'any-corner' | 'center' | 'area';
+
+export interface CoverageSettings {
+    rule: CoverageRule;
+    // percent of the hex's area, for the 'area' rule
+    threshold: number;
+    // cut outlines and fills off exactly at the hidden areas' edges
+    shouldClip: boolean;
+}
+
+export const DEFAULT_COVERAGE: CoverageSettings = { rule: 'all-corners', threshold: 50, shouldClip: false };
+
+// samples per side of the hex's bounding box when estimating covered area
+const AREA_SAMPLES = 12;
+
+// buckets per side of the area the regions span, for the spatial index
+const INDEX_BUCKETS = 64;
+
+// new regions hide the grid, which is what a freshly drawn polygon always did
+export function newRegion(polygon: Point[], regions: Region[]): Region {
+    return {
+        id: crypto.randomUUID(),
+        name: `Region ${regions.length + 1}`,
+        polygon,
+        visible: true,
+        grid: 'hide',
+        labels: 'inherit',
+        tint: '',
+        terrain: '',
+    };
+}
+
+// the topmost visible region containing a point, e.g. for picking one with a click
+export function regionAt(regions: Region[], point: Point): Region | null {
+    for (let i = regions.length - 1; i >= 0; i--) {
+        if (regions[i].visible && pointInPolygon(point, regions[i].polygon)) return regions[i];
+    }
+    return null;
+}
+
+interface Box { minX: number; minY: number; maxX: number; maxY: number }
+
+// Visible regions bucketed by bounding box on a coarse grid, so a point is only tested
+// against the few polygons near it instead of every region in the stack
+interface RegionIndex {
+    regions: Region[];
+    boxes: Box[];
+    origin: Point;
+    bucketSize: number;
+    // stack positions per bucket, bottom first
+    buckets: Map<string, number[]>;
+}
+
+function boundingBox(polygon: Point[]): Box {
+    return polygon.reduce((box, pt) => ({
+        minX: Math.min(box.minX, pt.x), minY: Math.min(box.minY, pt.y),
+        maxX: Math.max(box.maxX, pt.x), maxY: Math.max(box.maxY, pt.y),
+    }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+}
+
+function indexRegions(regions: Region[]): RegionIndex {
+    const boxes = regions.map(region => boundingBox(region.polygon));
+    const shown = boxes.filter((_, i) => regions[i].visible && regions[i].polygon.length >= 3);
+    const origin = { x: Math.min(...shown.map(box => box.minX)), y: Math.min(...shown.map(box => box.minY)) };
+    const span = Math.max(...shown.map(box => Math.max(box.maxX - origin.x, box.maxY - origin.y)));
+    const bucketSize = Math.max(1, span / INDEX_BUCKETS);
+    const buckets = new Map<string, number[]>();
+    regions.forEach((region, i) => {
+        if (!region.visible || region.polygon.length < 3) return;
+        const box = boxes[i];
+        for (let bx = Math.floor((box.minX - origin.x) / bucketSize); bx <= Math.floor((box.maxX - origin.x) / bucketSize); bx++) {
+            for (let by = Math.floor((box.minY - origin.y) / bucketSize); by <= Math.floor((box.maxY - origin.y) / bucketSize); by++) {
+                const key = `${bx},${by}`;
+                const bucket = buckets.get(key);
+                if (bucket) bucket.push(i);
+                else buckets.set(key, [i]);
+            }
+        }
+    });
+    return { regions, boxes, origin, bucketSize, buckets };
+}
+
+// value from the topmost visible region at the point that has one
+function topmost<T>(index: RegionIndex, point: Point, pick: (region: Region) => T | null): T | null {
+    const key = `${Math.floor((point.x - index.origin.x) / index.bucketSize)},${Math.floor((point.y - index.origin.y) / index.bucketSize)}`;
+    const candidates = index.buckets.get(key);
+    if (!candidates) return null;
+    for (let i = candidates.length - 1; i >= 0; i--) {
+        const region = index.regions[candidates[i]];
+        const box = index.boxes[candidates[i]];
+        if (point.x < box.minX || point.x > box.maxX || point.y < box.minY || point.y > box.maxY) continue;
+        const value = pick(region);
+        if (value !== null && pointInPolygon(point, region.polygon)) return value;
+    }
+    return null;
+}
+
+const ruleOf = (key: 'grid' | 'labels') => (region: Region) => region[key] === 'inherit' ? null : region[key];
+
+// sample points spread over a hex, for estimating how much of it is hidden
+function areaSamples(corners: Point[]): Point[] {
+    const xs = corners.map(pt => pt.x), ys = corners.map(pt => pt.y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs);
+    const minY = Math.min(...ys), maxY = Math.max(...ys);
+    const samples: Point[] = [];
+    for (let i = 0; i < AREA_SAMPLES; i++) {
+        for (let j = 0; j < AREA_SAMPLES; j++) {
+            const pt = {
+                x: minX + (i + 0.5) * (maxX - minX) / AREA_SAMPLES,
+                y: minY + (j + 0.5) * (maxY - minY) / AREA_SAMPLES,
+            };
+            if (pointInPolygon(pt, corners)) samples.push(pt);
+        }
+    }
+    return samples;
+}
+
+// decides from a hex's corners whether it is drawn, by the chosen coverage rule
+export function regionGridMask(regions: Region[], coverage: CoverageSettings = DEFAULT_COVERAGE) {
+    const index = indexRegions(regions);
+    const isShown = (pt: Point) => topmost(index, pt, ruleOf('grid')) !== 'hide';
+    return (corners: Point[]) => {
+        switch (coverage.rule) {
+            case 'any-corner':
+                return corners.some(isShown);
+            case 'center':
+                return isShown({
+                    x: corners.reduce((sum, pt) => sum + pt.x, 0) / corners.length,
+                    y: corners.reduce((sum, pt) => sum + pt.y, 0) / corners.length,
+                });
+            case 'area': {
+                // all corners shown is the common case away from any coastline
+                if (corners.every(isShown)) return true;
+                const samples = areaSamples(corners);
+                return samples.filter(isShown).length * 100 >= coverage.threshold * samples.length;
+            }
+            default:
+                return corners.every(isShown);
+        }
+    };
+}
+
+// where mask canvases come from; Node has no OffscreenCanvas, so the command-line tool brings its own
+let createMaskCanvas = (width: number, height: number) => new OffscreenCanvas(width, height);
+
+export function setMaskCanvasFactory(create: (width: number, height: number) => OffscreenCanvas) {
+    createMaskCanvas = create;
+}
+
+// Canvas with the hidden areas filled in: regions hiding the grid, minus grid-showing regions
+// stacked above them. `transform` maps region coordinates onto the canvas, e.g. for a zoomed
+// view. null when nothing is hidden.
+export function hiddenAreaMask(regions: Region[], width: number, height: number, transform?: DOMMatrix): OffscreenCanvas | null {
+    if (!regions.some(region => region.visible && region.grid === 'hide')) return null;
+    // offscreen so the grid worker can clip too
+    const mask = createMaskCanvas(width, height);
+    const ctx = mask.getContext('2d');
+    if (!ctx) return null;
+    if (transform) ctx.setTransform(transform);
+    ctx.fillStyle = 'white';
+    regions.forEach(region => {
+        if (!region.visible || region.grid === 'inherit') return;
+        ctx.globalCompositeOperation = region.grid === 'hide' ? 'source-over' : 'destination-out';
+        ctx.beginPath();
+        region.polygon.forEach((pt, i) => {
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
+        });
+        ctx.closePath();
+        ctx.fill();
+    });
+    return mask;
+}
+
+// erase whatever a layer drew inside the hidden areas, through the layer's current transform
+export function clipToShownAreas(ctx: Canvas2D, regions: Region[]) {
+    const mask = hiddenAreaMask(regions, ctx.canvas.width, ctx.canvas.height, ctx.getTransform());
+    if (!mask) return;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(mask, 0, 0);
+    ctx.restore();
+}
+
+// labels go in drawn hexes whose center isn't under a label-hiding region
+export function regionLabelFilter(regions: Region[]) {
+    const index = indexRegions(regions);
+    return (cell: HexCell) => cell.drawn && topmost(index, cell.center, ruleOf('labels')) !== 'hide';
+}
+
+// Hex data with region default terrains filled in where nothing was painted. Read this
+// everywhere terrain matters; edits still go to the painted data.
+export function withRegionTerrain(grid: HexGrid | null, hexData: HexDataMap, regions: Region[]): HexDataMap {
+    if (!grid || !regions.some(region => region.visible && region.terrain)) return hexData;
+    const result = { ...hexData };
+    const index = indexRegions(regions);
+    grid.cells.forEach(cell => {
+        const key = hexKey(cell.col, cell.row);
+        if (result[key]?.terrain) return;
+        const terrain = topmost(index, cell.center, region => region.terrain || null);
+        if (terrain) result[key] = { ...EMPTY_HEX_DATA, ...result[key], terrain };
+    });
+    return result;
+}
+
+// fill drawn hexes with the tint of the topmost tinted region over their center
+export function drawRegionTints(ctx: Canvas2D, grid: HexGrid, regions: Region[]) {
+    if (!regions.some(region => region.visible && region.tint)) return;
+    const index = indexRegions(regions);
+    ctx.save();
+    ctx.globalAlpha = REGION_TINT_ALPHA;
+    grid.cells.forEach(cell => {
+        if (!cell.drawn) return;
+        const tint = topmost(index, cell.center, region => region.tint || null);
+        if (!tint) return;
+        ctx.fillStyle = tint;
+        ctx.beginPath();
+        cell.corners.forEach((pt, i) => {
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
+        });
+        ctx.closePath();
+        ctx.fill();
+    });
+    ctx.restore();
+}
+
+export function moveRegion(regions: Region[], id: string, step: number): Region[] {
+    const from = regions.findIndex(region => region.id === id);
+    const to = from + step;
+    if (from < 0 || to < 0 || to >= regions.length) return regions;
+    const next = [...regions];
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+}
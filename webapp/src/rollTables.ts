@@ -0,0 +1,149 @@
+// Random tables rolled per hex: encounters when a hex is entered or clicked, and seeded
+// content (lairs, ruins, landmarks) for pre-populating a whole region.
+import {EMPTY_HEX_DATA, isEmptyHexData, type HexData, type HexDataMap} from './hexData.ts';
+import {hexKey, pointInPolygon, type HexCell} from './hexGrid.ts';
+import type {Region} from './regions.ts';
+
+export type RollTableKind = 'encounter' | 'content';
+
+export interface RollTableEntry { weight: number; text: string }
+
+export interface RollTable {
+    id: string;
+    name: string;
+    kind: RollTableKind;
+    // '' matches any terrain
+    terrain: string;
+    // id of a region; null, or a region that no longer exists, matches anywhere
+    region: string | null;
+    // percent chance that a roll turns up anything at all
+    chance: number;
+    // entry text may hold dice expressions ("2d6 wolves"), rolled when the entry comes up
+    entries: RollTableEntry[];
+}
+
+export interface RollSettings {
+    seed: string;
+    shouldRollOnEnter: boolean;
+}
+
+export const DEFAULT_ROLL_SETTINGS: RollSettings = { seed: 'hexcrawl', shouldRollOnEnter: true };
+
+export type Rng = () => number;
+
+// mulberry32 seeded from a string hash, so a seed phrase always gives the same sequence
+export function seededRng(seed: string): Rng {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    let state = h >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// "2d6", "d20", "3d4+2", "1d6 - 1"
+const DICE_PATTERN = /\b(\d*)d(\d+)(?:\s*([+-])\s*(\d+))?\b/gi;
+const MAX_DICE = 100;
+
+export function rollDice(expression: string, rng: Rng): number | null {
+    const match = new RegExp(DICE_PATTERN.source, 'i').exec(expression.trim());
+    if (!match) return null;
+    const count = Math.min(MAX_DICE, match[1] ? parseInt(match[1]) : 1);
+    const sides = parseInt(match[2]);
+    if (!(sides > 0)) return null;
+    let total = 0;
+    for (let i = 0; i < count; i++) total += Math.floor(rng() * sides) + 1;
+    if (match[3]) total += (match[3] === '-' ? -1 : 1) * parseInt(match[4]);
+    return total;
+}
+
+// replace every dice expression in the text with a rolled total
+export function expandDice(text: string, rng: Rng) {
+    return text.replace(DICE_PATTERN, expression => String(rollDice(expression, rng) ?? expression));
+}
+
+// one roll: the table's chance first, then a weighted pick. null when nothing turns up.
+export function rollOnTable(table: RollTable, rng: Rng): string | null {
+    const entries = table.entries.filter(entry => entry.weight > 0);
+    const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    if (totalWeight === 0 || rng() * 100 >= table.chance) return null;
+    let pick = rng() * totalWeight;
+    const entry = entries.find(entry => (pick -= entry.weight) < 0) ?? entries[entries.length - 1];
+    return expandDice(entry.text, rng);
+}
+
+// one entry per line, "weight: text" or just "text" for weight 1
+export function parseEntries(text: string): RollTableEntry[] {
+    return text.split('\n')
+        .map(line => {
+            const match = /^\s*(\d+(?:\.\d+)?)\s*:\s*(.*)$/.exec(line);
+            return match ? { weight: parseFloat(match[1]), text: match[2].trim() } : { weight: 1, text: line.trim() };
+        })
+        .filter(entry => entry.text.length > 0);
+}
+
+export function formatEntries(entries: RollTableEntry[]) {
+    return entries.map(entry => `${entry.weight}: ${entry.text}`).join('\n');
+}
+
+export function newRollTable(kind: RollTableKind): RollTable {
+    return {
+        id: crypto.randomUUID(),
+        name: kind === 'encounter' ? 'Encounters' : 'Hex contents',
+        kind,
+        terrain: '',
+        region: null,
+        chance: kind === 'encounter' ? 17 : 15,
+        entries: kind === 'encounter'
+            ? [{ weight: 3, text: '2d6 wolves' }, { weight: 2, text: '1d4+1 bandits' }, { weight: 1, text: 'a wandering merchant' }]
+            : [{ weight: 2, text: 'lair' }, { weight: 2, text: 'ruin' }, { weight: 1, text: 'landmark' }],
+    };
+}
+
+// tables of one kind that apply to a hex, by its terrain and position
+export function tablesForHex(tables: RollTable[], kind: RollTableKind, cell: HexCell, terrain: string, regions: Region[]) {
+    return tables.filter(table => {
+        if (table.kind !== kind || (table.terrain && table.terrain !== terrain)) return false;
+        const region = regions.find(region => region.id === table.region);
+        return !region || pointInPolygon(cell.center, region.polygon);
+    });
+}
+
+export function resultLine(table: RollTable, result: string) {
+    return `[${table.name}] ${result}`;
+}
+
+export function appendNote(data: HexData = EMPTY_HEX_DATA, line: string): HexData {
+    return { ...data, notes: data.notes ? `${data.notes}\n${line}` : line };
+}
+
+// Roll every content table over the given hexes. Each hex/table pair gets its own RNG from the
+// seed, so results don't shift when the region changes, and lines from an earlier run of the
+// same tables are replaced rather than piled up. `terrainData` supplies the terrain tables
+// match on, which may include region defaults that `hexData` doesn't store.
+export function populateHexes(hexData: HexDataMap, terrainData: HexDataMap, cells: HexCell[], tables: RollTable[], seed: string, regions: Region[]): HexDataMap {
+    const prefixes = tables.filter(table => table.kind === 'content').map(table => `[${table.name}] `);
+    const next = { ...hexData };
+    cells.forEach(cell => {
+        const key = hexKey(cell.col, cell.row);
+        const previous = next[key] ?? EMPTY_HEX_DATA;
+        let data: HexData = {
+            ...previous,
+            notes: previous.notes.split('\n').filter(line => !prefixes.some(prefix => line.startsWith(prefix))).join('\n'),
+        };
+        tablesForHex(tables, 'content', cell, terrainData[key]?.terrain ?? '', regions).forEach(table => {
+            const result = rollOnTable(table, seededRng(`${seed}:${key}:${table.id}`));
+            if (result) data = appendNote(data, resultLine(table, result));
+        });
+        if (isEmptyHexData(data)) delete next[key];
+        else next[key] = data;
+    });
+    return next;
+}
+
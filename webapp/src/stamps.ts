@@ -0,0 +1,177 @@
+// Map symbols stamped on hexes: built-in vector icons and uploaded images, sized by the hex
+// radius so they grow and shrink with the grid. Each stamp is either pinned to a hex, following
+// its center, or placed freely, and is shown to everyone or only to the GM.
+import type {Canvas2D, HexGrid, Point} from './hexGrid.ts';
+import {contrastColor} from './gridStyle.ts';
+import type {Rect} from './viewport.ts';
+
+// Built-in symbols as SVG path data in a 24 × 24 box, filled even-odd so the inner shapes
+// become holes. Only absolute M, L, Q and Z commands, which map straight onto canvas calls.
+export const STAMP_SYMBOLS = {
+    settlement: 'M2 12 L12 3 L22 12 L19 12 L19 21 L5 21 L5 12 Z M10 21 L10 15 L14 15 L14 21 Z',
+    dungeon: 'M3 21 L3 10 Q3 3 12 3 Q21 3 21 10 L21 21 Z M8 21 L8 13 Q8 9 12 9 Q16 9 16 13 L16 21 Z',
+    ruin: 'M3 21 L3 10 L7 8 L7 21 Z M10 21 L10 4 L14 6 L14 21 Z M17 21 L17 12 L21 13 L21 21 Z M2 21 L22 21 L22 23 L2 23 Z',
+    camp: 'M12 3 L22 21 L2 21 Z M12 11 L16 21 L8 21 Z',
+    tower: 'M6 22 L7 10 L5 10 L5 3 L8 3 L8 5 L10.5 5 L10.5 3 L13.5 3 L13.5 5 L16 5 L16 3 L19 3 L19 10 L17 10 L18 22 Z M11 12 L13 12 L13 16 L11 16 Z',
+    lair: 'M12 2 Q20 2 20 10 Q20 14 17 16 L17 21 L7 21 L7 16 Q4 14 4 10 Q4 2 12 2 Z M7 10 L9.5 8 L11 11 L8 12 Z M17 10 L14.5 8 L13 11 L16 12 Z M12 13 L13 15 L11 15 Z',
+};
+
+export type StampSymbol = keyof typeof STAMP_SYMBOLS;
+
+export const SYMBOL_BOX = 24;
+
+// an uploaded PNG or SVG, kept in the project as a data URL
+export interface StampIcon {
+    id: string;
+    name: string;
+    dataUrl: string;
+}
+
+export type StampVisibility = 'gm' | 'players';
+
+export interface Stamp {
+    id: string;
+    // a built-in symbol or the id of an uploaded icon
+    icon: StampSymbol | string;
+    // the hex a snapped stamp sits on; null for a free one
+    hex: string | null;
+    // where a free stamp sits, in map pixels
+    position: Point;
+    // percent of the hex radius
+    size: number;
+    // fill of the built-in symbols
+    color: string;
+    visibility: StampVisibility;
+}
+
+// what the Stamp tool puts down next
+export interface StampOptions {
+    icon: StampSymbol | string;
+    size: number;
+    color: string;
+    visibility: StampVisibility;
+    shouldSnap: boolean;
+}
+
+export const DEFAULT_STAMP_OPTIONS: StampOptions = {
+    icon: 'settlement',
+    size: 100,
+    color: '#3b2314',
+    visibility: 'players',
+    shouldSnap: true,
+};
+
+// an uploaded icon decoded for drawing, keyed by icon id
+export type StampImage = CanvasImageSource & { width: number; height: number };
+export type StampImages = Map<string, StampImage>;
+
+export function isStampSymbol(icon: string): icon is StampSymbol {
+    return Object.hasOwn(STAMP_SYMBOLS, icon);
+}
+
+export function playerStamps(stamps: Stamp[]): Stamp[] {
+    return stamps.filter(stamp => stamp.visibility === 'players');
+}
+
+// the center of a snapped stamp's hex or a free stamp's position; null if its hex is gone
+export function stampCenter(grid: HexGrid, stamp: Stamp): Point | null {
+    if (stamp.hex === null) return stamp.position;
+    return grid.byKey.get(stamp.hex)?.center ?? null;
+}
+
+// the square the stamp is drawn in
+export function stampBounds(grid: HexGrid, stamp: Stamp): Rect | null {
+    const center = stampCenter(grid, stamp);
+    if (!center) return null;
+    const side = grid.radius * stamp.size / 100;
+    return { x: center.x - side / 2, y: center.y - side / 2, width: side, height: side };
+}
+
+// the topmost stamp under a point
+export function stampAt(grid: HexGrid, stamps: Stamp[], point: Point): Stamp | null {
+    for (let i = stamps.length - 1; i >= 0; i--) {
+        const bounds = stampBounds(grid, stamps[i]);
+        if (bounds && point.x >= bounds.x && point.x <= bounds.x + bounds.width && point.y >= bounds.y && point.y <= bounds.y + bounds.height) {
+            return stamps[i];
+        }
+    }
+    return null;
+}
+
+// A stamp from the tool's options at a clicked point: snapped stamps need a drawn hex there
+export function newStamp(grid: HexGrid, options: StampOptions, point: Point, hexAtPoint: string | null): Stamp | null {
+    if (options.shouldSnap && !hexAtPoint) return null;
+    return {
+        id: crypto.randomUUID(),
+        icon: options.icon,
+        hex: options.shouldSnap ? hexAtPoint : null,
+        position: options.shouldSnap && hexAtPoint ? grid.byKey.get(hexAtPoint)?.center ?? point : point,
+        size: options.size,
+        color: options.color,
+        visibility: options.visibility,
+    };
+}
+
+// Decode the uploaded icons with `load`, an Image in the page or the canvas package's loader
+// in Node. Icons that fail to decode are left out and their stamps skipped.
+export async function loadStampImages(icons: StampIcon[], load: (src: string) => Promise<StampImage>): Promise<StampImages> {
+    const images: StampImages = new Map();
+    await Promise.all(icons.map(async icon => {
+        try {
+            images.set(icon.id, await load(icon.dataUrl));
+        } catch (err) {
+            console.error(`Stamp icon "${icon.name}" failed to load`, err);
+        }
+    }));
+    return images;
+}
+
+function traceSymbol(ctx: Canvas2D, path: string) {
+    const tokens = path.match(/[MLQZ]|-?[\d.]+/g) ?? [];
+    let i = 0;
+    const next = () => Number(tokens[i++]);
+    ctx.beginPath();
+    while (i < tokens.length) {
+        const command = tokens[i++];
+        if (command === 'M') ctx.moveTo(next(), next());
+        else if (command === 'L') ctx.lineTo(next(), next());
+        else if (command === 'Q') ctx.quadraticCurveTo(next(), next(), next(), next());
+        else if (command === 'Z') ctx.closePath();
+    }
+}
+
+// a built-in symbol filled in its color over an outline in black or white, so it reads on any map
+function drawSymbol(ctx: Canvas2D, symbol: StampSymbol, color: string, bounds: Rect) {
+    ctx.save();
+    ctx.translate(bounds.x, bounds.y);
+    ctx.scale(bounds.width / SYMBOL_BOX, bounds.height / SYMBOL_BOX);
+    traceSymbol(ctx, STAMP_SYMBOLS[symbol]);
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = contrastColor(color);
+    ctx.stroke();
+    ctx.fillStyle = color;
+    ctx.fill('evenodd');
+    ctx.restore();
+}
+
+// an uploaded image fitted into the stamp's square, keeping its proportions
+function drawIcon(ctx: Canvas2D, image: StampImage, bounds: Rect) {
+    const scale = Math.min(bounds.width / (image.width || 1), bounds.height / (image.height || 1));
+    const width = (image.width || 1) * scale, height = (image.height || 1) * scale;
+    ctx.drawImage(image, bounds.x + (bounds.width - width) / 2, bounds.y + (bounds.height - height) / 2, width, height);
+}
+
+// Stamps in world coordinates, later ones on top
+export function drawStamps(ctx: Canvas2D, grid: HexGrid, stamps: Stamp[], images: StampImages) {
+    stamps.forEach(stamp => {
+        const bounds = stampBounds(grid, stamp);
+        if (!bounds) return;
+        if (isStampSymbol(stamp.icon)) {
+            drawSymbol(ctx, stamp.icon, stamp.color, bounds);
+            return;
+        }
+        const image = images.get(stamp.icon);
+        if (image) drawIcon(ctx, image, bounds);
+    });
+}
@@ -0,0 +1,146 @@
+// Vector export: the grid, terrain fills, labels and regions as real SVG paths over the map image.
+// Each part is an Inkscape layer so it can be restyled or hidden after export.
+import type {HexDataMap} from './hexData.ts';
+import type {HexCell, HexGrid, Point} from './hexGrid.ts';
+import {centerDotRadius, contrastColor, dashFor, lineWidthFor, underStrokeWidth, uniqueEdges, type GridLineStyle} from './gridStyle.ts';
+import type {SubGrid} from './nestedGrid.ts';
+import {findLabelOrigin, formatHexLabel, labelOffset, type LabelStyle} from './labels.ts';
+import {TERRAIN_FILL_ALPHA, terrainColor, type TerrainType} from './terrain.ts';
+import type {Region} from './regions.ts';
+import {isStampSymbol, playerStamps, STAMP_SYMBOLS, stampBounds, SYMBOL_BOX, type Stamp, type StampIcon} from './stamps.ts';
+
+export interface SvgExportOptions {
+    grid: HexGrid;
+    gridStyle: GridLineStyle;
+    // nested sub-hexes drawn beneath the grid, or null
+    subGrid: SubGrid | null;
+    subGridStyle: GridLineStyle;
+    // embedded map image drawn at (imageOffset, imageOffset); omitted for a grid-only export
+    imageDataUrl: string | null;
+    imageOffset: number;
+    hexData: HexDataMap;
+    terrainPalette: TerrainType[];
+    // null when coordinates are turned off
+    labelStyle: LabelStyle | null;
+    isLabeled: (cell: HexCell) => boolean;
+    regions: Region[];
+    // mask terrain and grid to the areas the regions leave shown
+    shouldClip: boolean;
+    stamps: Stamp[];
+    stampIcons: StampIcon[];
+}
+
+function escapeXml(text: string) {
+    return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c] as string);
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+function pathData(points: Point[]) {
+    return points.map((pt, i) => `${i === 0 ? 'M' : 'L'}${round(pt.x)},${round(pt.y)}`).join(' ') + ' Z';
+}
+
+function layer(id: string, label: string, content: string[], attributes = '') {
+    return `<g id="${id}" inkscape:groupmode="layer" inkscape:label="${label}"${attributes}>\n${content.join('\n')}\n</g>`;
+}
+
+// Hex sides in a line style, as one path with every side once like the canvas grid, so shared
+// sides keep a single dash pattern. The group opacity applies once over the whole layer.
+function gridLines(grid: HexGrid, style: GridLineStyle, id: string, label: string, clip: string) {
+    const width = round(lineWidthFor(style, grid.radius));
+    const cells = grid.cells.filter(cell => cell.drawn);
+    const sides = uniqueEdges(cells).map(([a, b]) => `M${round(a.x)},${round(a.y)} L${round(b.x)},${round(b.y)}`).join(' ');
+    const lines = (attributes: string) => sides ? [`<path d="${sides}"${attributes}/>`] : [];
+    const dash = dashFor(style.pattern, width);
+    const content = [
+        ...(style.underStroke ? lines(` stroke="${contrastColor(style.color)}" stroke-width="${round(underStrokeWidth(width))}"`) : []),
+        ...lines(dash.length > 0 ? ` stroke-dasharray="${dash.map(round).join(' ')}"` : ''),
+        ...(style.centerDots
+            ? cells.map(cell => `<circle cx="${round(cell.center.x)}" cy="${round(cell.center.y)}" r="${round(centerDotRadius(width))}" fill="${style.color}" stroke="none"/>`)
+            : []),
+    ];
+    return layer(id, label, content,
+        ` fill="none" stroke="${style.color}" stroke-width="${width}" stroke-linecap="round" stroke-linejoin="round" opacity="${style.opacity}"${clip}`);
+}
+
+// Built-in symbols as the canvas draws them (outline beneath the fill); uploaded icons as images
+function stampElements(grid: HexGrid, stamps: Stamp[], icons: StampIcon[]) {
+    return stamps.flatMap(stamp => {
+        const bounds = stampBounds(grid, stamp);
+        if (!bounds) return [];
+        if (isStampSymbol(stamp.icon)) {
+            const transform = `translate(${round(bounds.x)} ${round(bounds.y)}) scale(${round(bounds.width / SYMBOL_BOX * 1000) / 1000})`;
+            return [`<path d="${STAMP_SYMBOLS[stamp.icon]}" transform="${transform}" fill="${stamp.color}" stroke="${contrastColor(stamp.color)}" data-stamp="${stamp.icon}"/>`];
+        }
+        const icon = icons.find(icon => icon.id === stamp.icon);
+        if (!icon) return [];
+        return [`<image x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" href="${icon.dataUrl}" data-stamp="${escapeXml(icon.name)}"/>`];
+    });
+}
+
+export function buildSvg(options: SvgExportOptions): string {
+    const { grid, gridStyle, subGrid, subGridStyle, imageDataUrl, imageOffset, hexData, terrainPalette, labelStyle, isLabeled, regions, shouldClip, stamps, stampIcons } = options;
+    const layers: string[] = [];
+    const defs: string[] = [];
+
+    // same stacking as hiddenAreaMask: white shows, black hides, later regions on top
+    const maskedRegions = regions.filter(region => region.visible && region.grid !== 'inherit');
+    const clip = shouldClip && maskedRegions.some(region => region.grid === 'hide') ? ' mask="url(#shown-areas)"' : '';
+    if (clip) {
+        defs.push(`<mask id="shown-areas" maskUnits="userSpaceOnUse" x="0" y="0" width="${grid.width}" height="${grid.height}">`,
+            `<rect width="${grid.width}" height="${grid.height}" fill="white"/>`,
+            ...maskedRegions.map(region => `<path d="${pathData(region.polygon)}" fill="${region.grid === 'hide' ? 'black' : 'white'}"/>`),
+            '</mask>');
+    }
+
+    if (imageDataUrl) {
+        layers.push(layer('map', 'Map', [
+            `<image x="${imageOffset}" y="${imageOffset}" width="${grid.width - imageOffset * 2}" height="${grid.height - imageOffset * 2}" href="${imageDataUrl}"/>`,
+        ]));
+    }
+
+    const fills = Object.entries(hexData).flatMap(([key, data]) => {
+        const cell = grid.byKey.get(key);
+        const color = terrainColor(terrainPalette, data.terrain);
+        if (!cell || !cell.drawn || !color) return [];
+        return [`<path d="${pathData(cell.corners)}" fill="${color}" data-hex="${cell.col},${cell.row}" data-terrain="${escapeXml(data.terrain)}"/>`];
+    });
+    layers.push(layer('terrain', 'Terrain', fills, ` fill-opacity="${TERRAIN_FILL_ALPHA}"${clip}`));
+
+    if (subGrid) layers.push(gridLines(subGrid.grid, subGridStyle, 'subgrid', 'Sub-hexes', clip));
+    layers.push(gridLines(grid, gridStyle, 'grid', 'Grid', clip));
+
+    if (labelStyle) {
+        const origin = findLabelOrigin(grid, labelStyle.origin, imageOffset);
+        const { dx, dy } = labelOffset(grid, labelStyle);
+        const halo = labelStyle.haloWidth > 0
+            ? ` stroke="${labelStyle.haloColor}" stroke-width="${labelStyle.haloWidth * 2}" stroke-linejoin="round" paint-order="stroke"`
+            : '';
+        const labels = origin ? grid.cells.filter(isLabeled).map(cell =>
+            `<text x="${round(cell.center.x + dx)}" y="${round(cell.center.y + dy)}">${escapeXml(formatHexLabel(grid, cell, origin, labelStyle))}</text>`
+        ) : [];
+        layers.push(layer('labels', 'Labels', labels,
+            ` font-family="${escapeXml(labelStyle.fontFamily)}" font-size="${labelStyle.fontSize}" fill="${labelStyle.color}" text-anchor="middle" dominant-baseline="middle"${halo}`));
+    }
+
+    // GM-only stamps get a layer of their own, to hide before handing the map to players
+    const stampAttributes = ' fill-rule="evenodd" stroke-width="2" stroke-linejoin="round" paint-order="stroke"';
+    layers.push(layer('stamps', 'Stamps', stampElements(grid, playerStamps(stamps), stampIcons), stampAttributes));
+    layers.push(layer('gm-stamps', 'GM stamps', stampElements(grid, stamps.filter(stamp => stamp.visibility === 'gm'), stampIcons), stampAttributes));
+
+    // the region polygons ride along hidden, bottom to top, for re-masking in an editor
+    const regionPaths = regions.map(region =>
+        `<path d="${pathData(region.polygon)}" data-region="${escapeXml(region.name)}" data-grid="${region.grid}"/>`
+    );
+    layers.push(layer('regions', 'Regions', regionPaths, ' style="display:none" fill="red" fill-opacity="0.3"'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${grid.width}" height="${grid.height}" viewBox="0 0 ${grid.width} ${grid.height}">`,
+        ...(defs.length > 0 ? ['<defs>', ...defs, '</defs>'] : []),
+        ...layers,
+        '</svg>',
+    ].join('\n');
+}
@@ -0,0 +1,95 @@
+// Terrain palette and the semi-transparent fill layer painted under the hex outlines.
+import type {HexDataMap} from './hexData.ts';
+import type {Canvas2D, HexGrid, Point} from './hexGrid.ts';
+
+// `cost` multiplies the miles it takes to cross a hex of this terrain (1 = open ground)
+export interface TerrainType { name: string; color: string; cost: number }
+
+export const DEFAULT_TERRAIN_PALETTE: TerrainType[] = [
+    { name: 'plains', color: '#c8d96f', cost: 1 },
+    { name: 'forest', color: '#2e7d32', cost: 2 },
+    { name: 'hills', color: '#a1887f', cost: 2 },
+    { name: 'mountains', color: '#6d4c41', cost: 3 },
+    { name: 'swamp', color: '#558b2f', cost: 3 },
+    { name: 'water', color: '#1e88e5', cost: 4 },
+    { name: 'desert', color: '#fbc02d', cost: 2 },
+    { name: 'road', color: '#795548', cost: 0.5 },
+];
+
+export const DEFAULT_TERRAIN_COST = 1;
+
+export const TERRAIN_FILL_ALPHA = 0.45;
+
+function traceHex(ctx: Canvas2D, corners: Point[]) {
+    ctx.beginPath();
+    corners.forEach((pt, i) => {
+        if (i === 0) ctx.moveTo(pt.x, pt.y);
+        else ctx.lineTo(pt.x, pt.y);
+    });
+    ctx.closePath();
+}
+
+export function terrainColor(palette: TerrainType[], name: string) {
+    return palette.find(terrain => terrain.name === name)?.color ?? null;
+}
+
+export function terrainCost(palette: TerrainType[], name: string | undefined) {
+    return palette.find(terrain => terrain.name === name)?.cost ?? DEFAULT_TERRAIN_COST;
+}
+
+// fill every drawn hex that has a terrain with a known palette color
+export function drawTerrainFills(ctx: Canvas2D, grid: HexGrid, hexData: HexDataMap, palette: TerrainType[]) {
+    ctx.save();
+    ctx.globalAlpha = TERRAIN_FILL_ALPHA;
+    Object.entries(hexData).forEach(([key, data]) => {
+        const cell = grid.byKey.get(key);
+        const color = terrainColor(palette, data.terrain);
+        if (!cell || !cell.drawn || !color) return;
+        ctx.fillStyle = color;
+        traceHex(ctx, cell.corners);
+        ctx.fill();
+    });
+    ctx.restore();
+}
+
+// only the terrains that were actually painted end up in the legend, in palette order
+export function usedTerrains(hexData: HexDataMap, palette: TerrainType[]) {
+    const used = new Set(Object.values(hexData).map(data => data.terrain));
+    return palette.filter(terrain => used.has(terrain.name));
+}
+
+// draw a legend box with its bottom-right corner at (right, bottom)
+export function drawTerrainLegend(ctx: Canvas2D, terrains: TerrainType[], right: number, bottom: number) {
+    if (terrains.length === 0) return;
+    const fontSize = 18;
+    const swatch = 18;
+    const gap = 8;
+    const lineHeight = swatch + gap;
+
+    ctx.save();
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    const textWidth = Math.max(...terrains.map(terrain => ctx.measureText(terrain.name).width));
+    const width = gap * 3 + swatch + textWidth;
+    const height = gap + terrains.length * lineHeight;
+    const left = right - width;
+    const top = bottom - height;
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 1;
+    ctx.fillRect(left, top, width, height);
+    ctx.strokeRect(left, top, width, height);
+
+    terrains.forEach((terrain, i) => {
+        const y = top + gap + i * lineHeight;
+        ctx.globalAlpha = TERRAIN_FILL_ALPHA;
+        ctx.fillStyle = terrain.color;
+        ctx.fillRect(left + gap, y, swatch, swatch);
+        ctx.globalAlpha = 1;
+        ctx.strokeRect(left + gap, y, swatch, swatch);
+        ctx.fillStyle = 'black';
+        ctx.fillText(terrain.name, left + gap * 2 + swatch, y + swatch / 2);
+    });
+    ctx.restore();
+}
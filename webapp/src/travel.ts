@@ -0,0 +1,123 @@
+// Party position and travel log. Every hex crossed costs hexMiles × the terrain's movement
+// cost out of the day's travel budget; when the budget runs out the party makes camp.
+import type {HexCell, HexGrid, Point} from './hexGrid.ts';
+
+export interface TravelSettings {
+    // effective miles the party can cover in a day
+    milesPerDay: number;
+    // travel watches per day, for "day 2, watch 3" style bookkeeping
+    watchesPerDay: number;
+}
+
+export const DEFAULT_TRAVEL_SETTINGS: TravelSettings = { milesPerDay: 24, watchesPerDay: 3 };
+
+export type TravelEntryKind = 'start' | 'move' | 'camp';
+
+export interface TravelEntry {
+    kind: TravelEntryKind;
+    day: number;
+    watch: number;
+    // hex keys; `from` is null for the starting position
+    from: string | null;
+    to: string;
+    hexes: number;
+    miles: number;
+    // miles after terrain costs, taken out of the daily budget
+    cost: number;
+    terrain: string;
+}
+
+export interface PartyState {
+    position: string | null;
+    log: TravelEntry[];
+}
+
+export const EMPTY_PARTY: PartyState = { position: null, log: [] };
+
+// day of the latest entry and how much of that day's budget is spent
+export function travelStatus(log: TravelEntry[]) {
+    const day = log.length > 0 ? log[log.length - 1].day : 1;
+    const usedToday = log.filter(entry => entry.day === day).reduce((sum, entry) => sum + entry.cost, 0);
+    return { day, usedToday };
+}
+
+function watchFor(used: number, settings: TravelSettings) {
+    const perWatch = settings.milesPerDay / settings.watchesPerDay;
+    return Math.min(settings.watchesPerDay, Math.floor(used / perWatch) + 1);
+}
+
+// Log entry for moving `hexes` steps into a hex of the given terrain, where `stepCost` is the sum
+// of the terrain costs of the hexes entered on the way. A move that doesn't fit in what's left of
+// today starts the next day, unless nothing has been spent yet today.
+export function planMove(
+    log: TravelEntry[],
+    settings: TravelSettings,
+    from: string,
+    to: string,
+    hexes: number,
+    hexMiles: number,
+    terrain: string,
+    stepCost: number
+): TravelEntry {
+    const { day, usedToday } = travelStatus(log);
+    const cost = stepCost * hexMiles;
+    const nextDay = usedToday > 0 && usedToday + cost > settings.milesPerDay;
+    return {
+        kind: 'move',
+        day: nextDay ? day + 1 : day,
+        watch: watchFor(nextDay ? 0 : usedToday, settings),
+        from,
+        to,
+        hexes,
+        miles: hexes * hexMiles,
+        cost,
+        terrain,
+    };
+}
+
+export function startEntry(to: string): TravelEntry {
+    return { kind: 'start', day: 1, watch: 1, from: null, to, hexes: 0, miles: 0, cost: 0, terrain: '' };
+}
+
+export function campEntry(log: TravelEntry[], position: string): TravelEntry {
+    const { day } = travelStatus(log);
+    return { kind: 'camp', day: day + 1, watch: 1, from: position, to: position, hexes: 0, miles: 0, cost: 0, terrain: '' };
+}
+
+// rebuild position from what's left of the log, e.g. after undoing a move
+export function partyFromLog(log: TravelEntry[]): PartyState {
+    return { position: log.length > 0 ? log[log.length - 1].to : null, log };
+}
+
+// party token: a disc at the hex center
+export function drawPartyToken(ctx: CanvasRenderingContext2D, grid: HexGrid, party: PartyState) {
+    const cell: HexCell | undefined = party.position ? grid.byKey.get(party.position) : undefined;
+    if (!cell) return;
+    const radius = Math.max(6, grid.radius * 0.3);
+
+    // faint trail through the logged moves
+    const trail: Point[] = party.log
+        .map(entry => grid.byKey.get(entry.to)?.center)
+        .filter((pt): pt is Point => !!pt);
+    ctx.save();
+    if (trail.length > 1) {
+        ctx.strokeStyle = 'rgba(220, 20, 60, 0.6)';
+        ctx.lineWidth = Math.max(2, radius / 3);
+        ctx.setLineDash([radius / 2, radius / 3]);
+        ctx.beginPath();
+        trail.forEach((pt, i) => {
+            if (i === 0) ctx.moveTo(pt.x, pt.y);
+            else ctx.lineTo(pt.x, pt.y);
+        });
+        ctx.stroke();
+        ctx.setLineDash([]);
+    }
+    ctx.fillStyle = 'crimson';
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = Math.max(2, radius / 4);
+    ctx.beginPath();
+    ctx.arc(cell.center.x, cell.center.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+}
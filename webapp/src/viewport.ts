@@ -0,0 +1,177 @@
+// Pan and zoom for the map view. The display canvases are only as big as the view and draw in
+// world (full-resolution image) coordinates through the view transform; exports still render
+// at full resolution on their own canvases.
+import type {HexCell, Point} from './hexGrid.ts';
+
+// `x`/`y` is the world point at the view's top-left corner, `zoom` is screen pixels per world pixel
+export interface Viewport {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+
+// pixels per side of a grid tile, which covers TILE_SIZE / level world pixels
+export const TILE_SIZE = 512;
+
+// keep the corner on whole screen pixels so the layers and tiles line up exactly
+function snap(view: Viewport): Viewport {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+    return { x: Math.round(view.x * zoom) / zoom, y: Math.round(view.y * zoom) / zoom, zoom };
+}
+
+export function screenToWorld(view: Viewport, point: Point): Point {
+    return { x: view.x + point.x / view.zoom, y: view.y + point.y / view.zoom };
+}
+
+export function worldToScreen(view: Viewport, point: Point): Point {
+    return { x: (point.x - view.x) * view.zoom, y: (point.y - view.y) * view.zoom };
+}
+
+// the whole world centered in the view
+export function fitViewport(world: Size, screen: Size): Viewport {
+    const zoom = Math.min(1, screen.width / world.width, screen.height / world.height);
+    return snap({ x: (world.width - screen.width / zoom) / 2, y: (world.height - screen.height / zoom) / 2, zoom });
+}
+
+// frame a world rectangle with a small margin, as close up as MAX_ZOOM allows
+export function fitRect(rect: Rect, screen: Size): Viewport {
+    const zoom = Math.min(MAX_ZOOM, 0.9 * screen.width / rect.width, 0.9 * screen.height / rect.height);
+    return snap({ x: rect.x + (rect.width - screen.width / zoom) / 2, y: rect.y + (rect.height - screen.height / zoom) / 2, zoom });
+}
+
+// zoom by a factor, keeping the world point under `screenPoint` in place
+export function zoomAt(view: Viewport, screenPoint: Point, factor: number): Viewport {
+    const anchor = screenToWorld(view, screenPoint);
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+    return snap({ x: anchor.x - screenPoint.x / zoom, y: anchor.y - screenPoint.y / zoom, zoom });
+}
+
+// drag by a screen-pixel delta
+export function panBy(view: Viewport, dx: number, dy: number): Viewport {
+    return snap({ ...view, x: view.x - dx / view.zoom, y: view.y - dy / view.zoom });
+}
+
+export function centerOn(view: Viewport, point: Point, screen: Size): Viewport {
+    return snap({ ...view, x: point.x - screen.width / 2 / view.zoom, y: point.y - screen.height / 2 / view.zoom });
+}
+
+export function visibleRect(view: Viewport, screen: Size): Rect {
+    return { x: view.x, y: view.y, width: screen.width / view.zoom, height: screen.height / view.zoom };
+}
+
+// cells with a center within `margin` of the rectangle, which is enough to catch any part showing
+export function cellsNear(cells: HexCell[], area: Rect, margin: number): HexCell[] {
+    return cells.filter(cell =>
+        cell.center.x >= area.x - margin && cell.center.x <= area.x + area.width + margin &&
+        cell.center.y >= area.y - margin && cell.center.y <= area.y + area.height + margin);
+}
+
+// Clear a display canvas and point its transform at the view. null when there is no canvas yet.
+export function beginLayer(canvas: HTMLCanvasElement | null, view: Viewport): CanvasRenderingContext2D | null {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return null;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(view.zoom, 0, 0, view.zoom, -view.x * view.zoom, -view.y * view.zoom);
+    return ctx;
+}
+
+// one tile of the view at a zoom level; `area` is the world rectangle it covers
+export interface TileRequest {
+    key: string;
+    zoom: number;
+    tx: number;
+    ty: number;
+    area: Rect;
+}
+
+// Tiles are rendered at powers of two, at or above the view's zoom so they are only ever scaled
+// down. Zooming within a level reuses its tiles instead of asking for new ones at every step.
+export function tileLevel(zoom: number) {
+    return 2 ** Math.ceil(Math.log2(zoom) - 1e-9);
+}
+
+function tileAt(level: number, tx: number, ty: number): TileRequest {
+    const size = TILE_SIZE / level;
+    return { key: `${level}:${tx}:${ty}`, zoom: level, tx, ty, area: { x: tx * size, y: ty * size, width: size, height: size } };
+}
+
+// the tiles of a level overlapping a world rectangle, within the world
+function tilesCovering(level: number, area: Rect, world: Size): TileRequest[] {
+    const size = TILE_SIZE / level;
+    const firstX = Math.max(0, Math.floor(area.x / size)), firstY = Math.max(0, Math.floor(area.y / size));
+    const lastX = Math.min(Math.ceil((area.x + area.width) / size), Math.ceil(world.width / size)) - 1;
+    const lastY = Math.min(Math.ceil((area.y + area.height) / size), Math.ceil(world.height / size)) - 1;
+    const tiles: TileRequest[] = [];
+    for (let ty = firstY; ty <= lastY; ty++) {
+        for (let tx = firstX; tx <= lastX; tx++) tiles.push(tileAt(level, tx, ty));
+    }
+    return tiles;
+}
+
+// a world rectangle on screen, rounded to whole pixels so neighbouring tiles meet without seams
+function screenRect(view: Viewport, area: Rect): Rect {
+    const left = Math.round((area.x - view.x) * view.zoom), top = Math.round((area.y - view.y) * view.zoom);
+    const right = Math.round((area.x + area.width - view.x) * view.zoom), bottom = Math.round((area.y + area.height - view.y) * view.zoom);
+    return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Fill the view from fixed-size tiles at the view's tile level, scaled to the exact zoom.
+// `getTile` returns null for a tile that isn't ready yet; until it is, cached tiles of the
+// neighbouring levels from `cachedTile` stand in for it.
+export function drawTiles(
+    ctx: CanvasRenderingContext2D,
+    view: Viewport,
+    world: Size,
+    getTile: (tile: TileRequest) => CanvasImageSource | null,
+    cachedTile: (key: string) => CanvasImageSource | null
+) {
+    const level = tileLevel(view.zoom);
+    const draw = (image: CanvasImageSource, area: Rect) => {
+        const rect = screenRect(view, area);
+        ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    };
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    tilesCovering(level, visibleRect(view, ctx.canvas), world).forEach(tile => {
+        const image = getTile(tile);
+        if (image) {
+            draw(image, tile.area);
+            return;
+        }
+        // clipped to the missing tile, so stand-ins don't draw over tiles that are ready
+        const rect = screenRect(view, tile.area);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(rect.x, rect.y, rect.width, rect.height);
+        ctx.clip();
+        [level / 2, level * 2].some(other => {
+            const standIns = tilesCovering(other, tile.area, world)
+                .map(standIn => ({ standIn, image: cachedTile(standIn.key) }));
+            standIns.forEach(({ standIn, image }) => {
+                if (image) draw(image, standIn.area);
+            });
+            return standIns.some(({ image }) => image);
+        });
+        ctx.restore();
+    });
+    ctx.restore();
+}